@@ -21,4 +21,14 @@ const customJestConfig = {
   ],
 }
 
-module.exports = createJestConfig(customJestConfig)
+// next/jest ignores all of node_modules; nanoid is ESM-only, so it must be transformed
+module.exports = async () => {
+  const config = await createJestConfig(customJestConfig)()
+
+  config.transformIgnorePatterns = [
+    '/node_modules/(?!nanoid/)',
+    ...config.transformIgnorePatterns.filter((pattern) => !pattern.startsWith('/node_modules/')),
+  ]
+
+  return config
+}
@@ -18,6 +18,9 @@ async function main() {
     await prisma.payment.deleteMany()
     await prisma.terminal.deleteMany()
     await prisma.order.deleteMany()
+    await prisma.subscription.deleteMany()
+    await prisma.plan.deleteMany()
+    await prisma.paymentMethod.deleteMany()
     await prisma.customer.deleteMany()
     await prisma.user.deleteMany()
     await prisma.idempotencyKey.deleteMany()
@@ -38,14 +41,37 @@ async function main() {
     data: {
       userId: testUser.id,
       shift4CustomerId: 'cust_test_123456',
-      defaultCardToken: 'tok_test_card_visa',
+      defaultCardToken: 'card_test_visa',
       cardBrand: 'Visa',
       cardLast4: '4242',
       cardExpMonth: 12,
       cardExpYear: 2025,
+      paymentMethods: {
+        create: [
+          {
+            shift4CardId: 'card_test_visa',
+            label: 'Personal',
+            cardBrand: 'Visa',
+            cardLast4: '4242',
+            cardExpMonth: 12,
+            cardExpYear: 2025,
+            funding: 'credit',
+            isDefault: true,
+          },
+          {
+            shift4CardId: 'card_test_amex',
+            label: 'Business',
+            cardBrand: 'American Express',
+            cardLast4: '0005',
+            cardExpMonth: 6,
+            cardExpYear: 2027,
+            funding: 'credit',
+          },
+        ],
+      },
     },
   })
-  console.log('✅ Created customer with saved card')
+  console.log('✅ Created customer with personal and business cards')
 
   // Create sample terminals
   const utgTerminal = await prisma.terminal.create({
@@ -57,9 +83,8 @@ async function main() {
       ipAddress: '192.168.1.100',
       port: 8333,
       config: {
-        timeout: 60000,
+        timeoutMs: 60000,
         retryAttempts: 2,
-        enableTipping: true,
       },
       supportsEMV: true,
       supportsNFC: true,
@@ -77,8 +102,7 @@ async function main() {
       status: 'ACTIVE',
       apiTerminalId: 'SKYTAB_001',
       config: {
-        deviceId: 'device_123',
-        enableSignature: true,
+        timeoutMs: 60000,
       },
       supportsEMV: true,
       supportsNFC: true,
@@ -286,6 +310,42 @@ async function main() {
   })
   console.log('✅ Created sample payout with line items')
 
+  // Create membership plans and subscribe the customer
+  const monthlyPlan = await prisma.plan.create({
+    data: {
+      name: 'Membership',
+      description: 'Monthly membership',
+      amount: 2900,
+      interval: 'MONTH',
+      trialDays: 14,
+    },
+  })
+
+  await prisma.plan.create({
+    data: {
+      name: 'Membership (annual)',
+      description: 'Yearly membership, two months free',
+      amount: 29000,
+      interval: 'YEAR',
+    },
+  })
+
+  const periodStart = new Date()
+  const periodEnd = new Date(periodStart)
+  periodEnd.setUTCMonth(periodEnd.getUTCMonth() + 1)
+
+  await prisma.subscription.create({
+    data: {
+      customerId: customer.id,
+      planId: monthlyPlan.id,
+      status: 'ACTIVE',
+      billingCycleAnchor: periodStart,
+      currentPeriodStart: periodStart,
+      currentPeriodEnd: periodEnd,
+    },
+  })
+  console.log('✅ Created membership plans and subscription')
+
   console.log('🎉 Database seed completed!')
 }
 
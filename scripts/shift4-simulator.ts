@@ -0,0 +1,52 @@
+/**
+ * Shift4 API simulator
+ * Serves a local stand-in for the Shift4 REST API for development without network access
+ *
+ * Usage:
+ *   npm run simulator:shift4                  # port 8444, webhooks to SHIFT4_WEBHOOK_URL
+ *   npm run simulator:shift4 -- --port=9000
+ *   npm run simulator:shift4 -- --no-webhooks
+ *
+ * Point the app at it with SHIFT4_API_URL=http://localhost:8444. Deliveries are
+ * signed with SHIFT4_WEBHOOK_SIGNING_SECRET when it is set.
+ */
+
+import { startShift4Simulator } from '@/simulators/shift4-simulator'
+import { logger } from '@/payments/logger'
+
+function parseArgs(argv: string[]) {
+  const value = (name: string) =>
+    argv.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3)
+
+  const port = parseInt(value('port') || process.env.SHIFT4_SIMULATOR_PORT || '8444', 10)
+  const webhookUrl = argv.includes('--no-webhooks')
+    ? undefined
+    : value('webhook-url') || process.env.SHIFT4_WEBHOOK_URL || undefined
+
+  return { port, webhookUrl }
+}
+
+async function main() {
+  const { port, webhookUrl } = parseArgs(process.argv.slice(2))
+
+  const simulator = await startShift4Simulator({
+    port,
+    webhookUrl,
+    webhookSecret: process.env.SHIFT4_WEBHOOK_SIGNING_SECRET || undefined,
+  })
+
+  const shutdown = () => {
+    logger.info('Shift4 simulator stopping')
+    simulator.close().catch((error) => {
+      logger.error({ error }, 'Shift4 simulator failed to stop')
+      process.exitCode = 1
+    })
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main().catch((error) => {
+  logger.error({ error }, 'Shift4 simulator crashed')
+  process.exitCode = 1
+})
@@ -0,0 +1,55 @@
+/**
+ * Terminal device simulator
+ * Serves the UTG and SkyTab device APIs locally for development without hardware
+ *
+ * Usage:
+ *   npm run simulator                         # approve everything on port 8333
+ *   npm run simulator -- --scenario=decline   # start with another scenario
+ *   npm run simulator -- --port=9000
+ *
+ * Point the app at it with UTG_HOST=localhost UTG_PORT=8333, or
+ * SKYTAB_API_URL=http://localhost:8333. Change scenarios while it runs:
+ *   curl -X PUT localhost:8333/__simulator/scenario -d '{"scenario":"slow_customer"}'
+ */
+
+import {
+  SIMULATOR_SCENARIOS,
+  startTerminalSimulator,
+} from '@/simulators/terminal-simulator'
+import type { SimulatorScenario } from '@/simulators/terminal-simulator'
+import { logger } from '@/payments/logger'
+
+function parseArgs(argv: string[]) {
+  const value = (name: string) =>
+    argv.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3)
+
+  const scenario = (value('scenario') || 'approve') as SimulatorScenario
+  const port = parseInt(value('port') || process.env.SIMULATOR_PORT || '8333', 10)
+
+  if (!SIMULATOR_SCENARIOS.includes(scenario)) {
+    throw new Error(`Unknown scenario. Available: ${SIMULATOR_SCENARIOS.join(', ')}`)
+  }
+
+  return { scenario, port }
+}
+
+async function main() {
+  const { scenario, port } = parseArgs(process.argv.slice(2))
+
+  const simulator = await startTerminalSimulator({ port, scenario })
+
+  const shutdown = () => {
+    logger.info('Terminal simulator stopping')
+    simulator.close().catch((error) => {
+      logger.error({ error }, 'Terminal simulator failed to stop')
+      process.exitCode = 1
+    })
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main().catch((error) => {
+  logger.error({ error }, 'Terminal simulator crashed')
+  process.exitCode = 1
+})
@@ -0,0 +1,141 @@
+/**
+ * Background worker
+ * Runs database-backed jobs outside the Next.js server process
+ *
+ * Usage:
+ *   npm run worker                    # run all jobs on their intervals
+ *   npm run worker -- --job=webhooks  # run a single job
+ *   npm run worker -- --once          # run each job once and exit (cron-friendly)
+ */
+
+import { prisma } from '@/lib/db'
+import { runWebhookQueue } from '@/jobs/webhook-queue'
+import { cleanupExpiredIdempotencyKeys } from '@/jobs/idempotency-cleanup'
+import { expireAuthorizations } from '@/jobs/authorization-expiry'
+import { forwardQueuedSAF } from '@/jobs/saf-forward'
+import { recoverOrphanedTransactions } from '@/jobs/terminal-recovery'
+import { renewSubscriptions } from '@/jobs/subscription-renewal'
+import { sweepExpiringCards } from '@/jobs/card-expiry'
+import { logger } from '@/payments/logger'
+
+interface Job {
+  name: string
+  intervalMs: number
+  run: () => Promise<unknown>
+}
+
+const jobs: Job[] = [
+  {
+    name: 'webhooks',
+    intervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '5000', 10),
+    run: () => runWebhookQueue(),
+  },
+  {
+    name: 'idempotency-cleanup',
+    intervalMs: 60 * 60 * 1000,
+    run: () => cleanupExpiredIdempotencyKeys(),
+  },
+  {
+    name: 'authorization-expiry',
+    intervalMs: 60 * 60 * 1000,
+    run: () => expireAuthorizations(),
+  },
+  {
+    name: 'saf-forward',
+    intervalMs: parseInt(process.env.SAF_FORWARD_INTERVAL_MS || '300000', 10),
+    run: () => forwardQueuedSAF(),
+  },
+  {
+    name: 'terminal-recovery',
+    intervalMs: parseInt(process.env.TERMINAL_RECOVERY_INTERVAL_MS || '60000', 10),
+    run: () => recoverOrphanedTransactions(),
+  },
+  {
+    name: 'subscription-renewal',
+    intervalMs: parseInt(process.env.SUBSCRIPTION_RENEWAL_INTERVAL_MS || '900000', 10),
+    run: () => renewSubscriptions(),
+  },
+  {
+    name: 'card-expiry',
+    intervalMs: parseInt(process.env.CARD_EXPIRY_INTERVAL_MS || '3600000', 10),
+    run: () => sweepExpiringCards(),
+  },
+]
+
+let stopping = false
+
+// Pending sleeps, woken early on shutdown so long intervals don't delay exit
+const sleepers = new Set<() => void>()
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    const wake = () => {
+      clearTimeout(timer)
+      sleepers.delete(wake)
+      resolve()
+    }
+    const timer = setTimeout(wake, ms)
+    sleepers.add(wake)
+  })
+}
+
+function parseArgs(argv: string[]) {
+  const once = argv.includes('--once')
+  const jobArg = argv.find((arg) => arg.startsWith('--job='))
+  const jobNames = jobArg ? jobArg.slice('--job='.length).split(',') : undefined
+
+  return { once, jobNames }
+}
+
+async function runJob(job: Job) {
+  try {
+    await job.run()
+  } catch (error) {
+    logger.error({ error, job: job.name }, 'Worker job failed')
+  }
+}
+
+async function loop(job: Job) {
+  while (!stopping) {
+    await runJob(job)
+    await sleep(job.intervalMs)
+  }
+}
+
+async function main() {
+  const { once, jobNames } = parseArgs(process.argv.slice(2))
+
+  const selected = jobNames ? jobs.filter((job) => jobNames.includes(job.name)) : jobs
+
+  if (selected.length === 0) {
+    throw new Error(`Unknown job. Available: ${jobs.map((job) => job.name).join(', ')}`)
+  }
+
+  logger.info({ jobs: selected.map((job) => job.name), once }, 'Worker starting')
+
+  if (once) {
+    for (const job of selected) {
+      await runJob(job)
+    }
+    return
+  }
+
+  const shutdown = () => {
+    logger.info('Worker stopping')
+    stopping = true
+    sleepers.forEach((wake) => wake())
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+
+  await Promise.all(selected.map(loop))
+}
+
+main()
+  .catch((error) => {
+    logger.error({ error }, 'Worker crashed')
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
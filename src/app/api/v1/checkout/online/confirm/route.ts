@@ -1,27 +1,67 @@
 /**
  * POST /api/v1/checkout/online/confirm
  * Confirm an online payment with a Shift4 token
+ *
+ * With `saveMethod`, the card is saved to the customer's wallet and becomes
+ * their default once charged. A repeat buyer can then confirm with a
+ * `paymentMethodId`, or with neither that nor a token to use their default.
+ *
+ * 3-D Secure: when the intent said it is required, the token must come from
+ * Shift4.js verifyThreeDSecure, and Shift4 declines an unverified one. This
+ * applies to saved cards too, since the customer is at checkout: the client
+ * verifies the saved card and sends the result as `token` together with
+ * `paymentMethodId`. An issuer can also ask for it on any payment with a soft
+ * decline, returned as a 402 with `details.threeDSecureRequired`; the client
+ * verifies the card and confirms again. The outcome (including the liability
+ * shift) is recorded on the payment's metadata.
+ *
+ * A verified token is used up by the charge, so to save a card on a verified
+ * payment the client also sends `saveToken`, a second token for the same
+ * card. It is saved once the charge succeeds.
  */
 
 import { NextRequest } from 'next/server'
+import type { Customer, PaymentMethod, User } from '@prisma/client'
 import { prisma } from '@/lib/db'
 import {
   errorResponse,
   successResponse,
   parseBody,
-  generateIdempotencyKey,
+  getIdempotencyKey,
+  withIdempotency,
 } from '@/lib/api-utils'
-import { createShift4Adapter } from '@/payments'
+import {
+  addPaymentMethod,
+  deletePaymentMethod,
+  getDefaultPaymentMethod,
+  getOrCreateShift4Customer,
+  setDefaultPaymentMethod,
+} from '@/lib/payment-methods'
+import { getAuthorizationExpiry } from '@/jobs/authorization-expiry'
+import {
+  CardError,
+  createShift4Adapter,
+  isLiabilityShifted,
+  isThreeDSecureDecline,
+  requiresThreeDSecure,
+} from '@/payments'
+import type { CreateChargeResponse, OnlinePaymentAdapter } from '@/payments'
 import { logger, paymentLogger } from '@/payments/logger'
 
 interface ConfirmRequest {
   orderId: string
-  token: string
+  token?: string // Omit to pay with a saved card; the verified token when 3-D Secure is required
+  paymentMethodId?: string // Saved card to charge (requires customerId); defaults to the customer's default card
   customerId?: string
-  saveMethod?: boolean
+  saveMethod?: boolean // Save the card for one-click checkout (requires customerId)
+  saveToken?: string // With saveMethod: second token for the card, saved after a verified charge succeeds
+  label?: string // Label for the saved card, e.g. "Business"
+  capture?: boolean // false = authorize only, capture later via /payments/{id}/capture
 }
 
-export async function POST(req: NextRequest) {
+export const POST = withIdempotency(confirmPayment)
+
+async function confirmPayment(req: NextRequest) {
   try {
     const body = await parseBody<ConfirmRequest>(req)
 
@@ -38,42 +78,165 @@ export async function POST(req: NextRequest) {
       return errorResponse(new Error('Order cannot be paid'), 400)
     }
 
+    // An order holding an open authorization must be captured or voided first
+    const activePayment = await prisma.payment.findFirst({
+      where: { orderId: order.id, status: { in: ['AUTHORIZED', 'CAPTURED'] } },
+    })
+
+    if (activePayment) {
+      return errorResponse(new Error('Order already has an active payment'), 400)
+    }
+
+    const customer = body.customerId
+      ? await prisma.customer.findUnique({
+          where: { id: body.customerId },
+          include: { user: true },
+        })
+      : null
+
+    if (body.customerId && !customer) {
+      return errorResponse(new Error('Customer not found'), 404)
+    }
+
+    if (body.saveMethod && !customer) {
+      return errorResponse(new Error('customerId is required to save a payment method'), 400)
+    }
+
+    if (body.paymentMethodId && !customer) {
+      return errorResponse(new Error('customerId is required to pay with a saved card'), 400)
+    }
+
+    if (body.saveMethod && body.paymentMethodId) {
+      return errorResponse(new Error('saveMethod cannot be used with paymentMethodId'), 400)
+    }
+
+    if (body.saveToken && !(body.saveMethod && body.token)) {
+      return errorResponse(new Error('saveToken requires saveMethod and token'), 400)
+    }
+
+    const threeDSecureRequired = requiresThreeDSecure(order.total, order.currency)
+
+    // The verified token is used up by the charge, so the card is saved from a second token
+    if (threeDSecureRequired && body.saveMethod && body.token && !body.saveToken) {
+      return errorResponse(
+        new Error('saveToken is required to save a card on a payment that requires 3-D Secure'),
+        400
+      )
+    }
+
+    const capture = body.capture ?? true
+
     // Initialize Shift4 adapter
     const shift4 = createShift4Adapter()
 
+    // Tokens are single use, so a card being saved is attached to the
+    // customer first and the charge uses the saved card. With a saveToken the
+    // (verified) token is charged and the card is saved afterwards.
+    let paymentMethod: PaymentMethod | null = null
+    let newCard: PaymentMethod | null = null
+
+    if (body.token && body.saveMethod && !body.saveToken && customer) {
+      newCard = await addPaymentMethod(shift4, customer, body.token, { label: body.label })
+      paymentMethod = newCard
+    } else if (body.paymentMethodId && customer) {
+      paymentMethod = await prisma.paymentMethod.findFirst({
+        where: { id: body.paymentMethodId, customerId: customer.id },
+      })
+
+      if (!paymentMethod) {
+        return errorResponse(new Error('Payment method not found'), 404)
+      }
+    } else if (!body.token && customer) {
+      paymentMethod = await getDefaultPaymentMethod(customer.id)
+    }
+
+    let source: { token: string; customerId?: string }
+
+    if (body.token && customer && (body.saveToken || body.paymentMethodId)) {
+      // A verified token, for a card being saved or one already saved
+      source = { token: body.token, customerId: await getOrCreateShift4Customer(shift4, customer) }
+    } else if (paymentMethod && customer) {
+      source = {
+        token: paymentMethod.shift4CardId,
+        customerId: await getOrCreateShift4Customer(shift4, customer),
+      }
+    } else if (body.token) {
+      source = { token: body.token }
+    } else {
+      return errorResponse(new Error('token is required unless the customer has a saved card'), 400)
+    }
+
     // Create charge
-    const idempotencyKey = generateIdempotencyKey('pay')
-    const chargeResult = await shift4.createCharge({
-      amount: order.total,
-      currency: order.currency,
-      token: body.token,
-      customerId: body.customerId,
-      description: `Payment for ${order.orderNumber}`,
-      capture: true,
-      metadata: {
-        orderId: order.id,
-        orderNumber: order.orderNumber,
-      },
-    })
+    const idempotencyKey = getIdempotencyKey(req, 'pay')
+    let chargeResult: CreateChargeResponse
+
+    try {
+      chargeResult = await shift4.createCharge({
+        amount: order.total,
+        currency: order.currency,
+        token: source.token,
+        customerId: source.customerId,
+        description: `Payment for ${order.orderNumber}`,
+        capture,
+        requireThreeDSecure: threeDSecureRequired,
+        metadata: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+        },
+        idempotencyKey,
+      })
+    } catch (error) {
+      // Don't keep a card that was just saved but couldn't be charged
+      if (newCard) {
+        await discardPaymentMethod(shift4, newCard)
+      }
+
+      // The issuer wants 3-D Secure: the client verifies the card and confirms again
+      if (error instanceof CardError && isThreeDSecureDecline(error.declineCode)) {
+        error.details = { threeDSecureRequired: true }
+      }
+      throw error
+    }
+
+    const threeDSecure = chargeResult.threeDSecure
+      ? {
+          ...chargeResult.threeDSecure,
+          liabilityShifted: isLiabilityShifted(chargeResult.threeDSecure),
+        }
+      : null
+
+    const authorized = chargeResult.status === 'succeeded' && !chargeResult.captured
+
+    if (body.saveToken && customer && chargeResult.status === 'succeeded') {
+      paymentMethod = await saveChargedCard(shift4, customer, body.saveToken, body.label)
+    }
 
     // Save payment to database
     const payment = await prisma.payment.create({
       data: {
         orderId: order.id,
         customerId: body.customerId,
+        paymentMethodId: paymentMethod?.id,
         shift4ChargeId: chargeResult.chargeId,
+        shift4CustomerId: source.customerId,
         amount: chargeResult.amount,
         currency: chargeResult.currency,
-        status: chargeResult.status === 'succeeded' ? 'CAPTURED' : 'FAILED',
-        methodType: 'CARD_ONLINE',
+        status: getPaymentStatus(chargeResult.status, chargeResult.captured),
+        methodType: body.token && !body.paymentMethodId ? 'CARD_ONLINE' : 'SAVED_CARD',
         cardBrand: chargeResult.card?.brand,
         cardLast4: chargeResult.card?.last4,
         cardExpMonth: chargeResult.card?.expMonth,
         cardExpYear: chargeResult.card?.expYear,
         idempotencyKey,
         capturedAt: chargeResult.captured ? new Date() : null,
+        ...(authorized && {
+          authorizedAmount: chargeResult.amount,
+          authorizedAt: new Date(),
+          authorizationExpiresAt: getAuthorizationExpiry(),
+        }),
         failureCode: chargeResult.failureCode,
         failureMessage: chargeResult.failureMessage,
+        ...(threeDSecure && { metadata: { threeDSecure } }),
       },
     })
 
@@ -81,18 +244,30 @@ export async function POST(req: NextRequest) {
     await prisma.order.update({
       where: { id: order.id },
       data: {
-        status: chargeResult.status === 'succeeded' ? 'PAID' : 'PENDING_PAYMENT',
+        status: chargeResult.status === 'succeeded' && chargeResult.captured
+          ? 'PAID'
+          : 'PENDING_PAYMENT',
       },
     })
 
     // Log payment
-    if (chargeResult.status === 'succeeded') {
+    if (authorized) {
+      paymentLogger.chargeAuthorized(chargeResult.chargeId, chargeResult.amount, chargeResult.currency)
+    } else if (chargeResult.status === 'succeeded') {
       paymentLogger.chargeCreated(chargeResult.chargeId, chargeResult.amount, chargeResult.currency)
     } else {
       paymentLogger.chargeFailed(chargeResult.chargeId, chargeResult.failureMessage || 'Unknown', chargeResult.failureCode)
     }
 
-    // TODO: If saveMethod is true, save payment method to customer
+    // Only a card that was just charged successfully is kept, as the default
+    if (newCard) {
+      if (chargeResult.status === 'succeeded') {
+        paymentMethod = await setDefaultPaymentMethod(newCard)
+      } else {
+        await discardPaymentMethod(shift4, newCard)
+        paymentMethod = null
+      }
+    }
 
     return successResponse({
       paymentId: payment.id,
@@ -102,6 +277,9 @@ export async function POST(req: NextRequest) {
       currency: payment.currency,
       status: payment.status,
       card: chargeResult.card,
+      threeDSecure,
+      paymentMethod,
+      authorizationExpiresAt: payment.authorizationExpiresAt,
       createdAt: payment.createdAt,
     })
   } catch (error) {
@@ -109,3 +287,44 @@ export async function POST(req: NextRequest) {
     return errorResponse(error)
   }
 }
+
+/**
+ * Save the card from a charge that has succeeded, as the default
+ * The payment stands either way, so a failure only means the card isn't kept
+ */
+async function saveChargedCard(
+  shift4: OnlinePaymentAdapter,
+  customer: Customer & { user: User },
+  saveToken: string,
+  label?: string
+): Promise<PaymentMethod | null> {
+  try {
+    return await addPaymentMethod(shift4, customer, saveToken, { label, setDefault: true })
+  } catch (error) {
+    logger.warn({ error, customerId: customer.id }, 'Failed to save card after payment')
+    return null
+  }
+}
+
+/**
+ * Best-effort removal of a card saved for a charge that failed
+ */
+async function discardPaymentMethod(
+  shift4: OnlinePaymentAdapter,
+  paymentMethod: PaymentMethod
+): Promise<void> {
+  await deletePaymentMethod(shift4, paymentMethod).catch((error) => {
+    logger.warn(
+      { error, paymentMethodId: paymentMethod.id },
+      'Failed to remove card saved for a failed charge'
+    )
+  })
+}
+
+function getPaymentStatus(
+  status: 'succeeded' | 'pending' | 'failed',
+  captured: boolean
+): 'AUTHORIZED' | 'CAPTURED' | 'FAILED' {
+  if (status !== 'succeeded') return 'FAILED'
+  return captured ? 'CAPTURED' : 'AUTHORIZED'
+}
@@ -1,6 +1,10 @@
 /**
  * POST /api/v1/checkout/online/intent
  * Create an online checkout intent
+ *
+ * `threeDSecure.required` tells the client to verify the card with
+ * Shift4.js verifyThreeDSecure before confirming (amounts at or above
+ * THREE_D_SECURE_THRESHOLD for the currency), including a saved card.
  */
 
 import { NextRequest } from 'next/server'
@@ -11,6 +15,7 @@ import {
   parseBody,
   generateOrderNumber,
 } from '@/lib/api-utils'
+import { requiresThreeDSecure } from '@/payments'
 import { logger } from '@/payments/logger'
 
 interface IntentRequest {
@@ -49,7 +54,12 @@ export async function POST(req: NextRequest) {
       },
     })
 
-    logger.info({ orderId: order.id, amount: body.amount }, 'Online checkout intent created')
+    const threeDSecure = { required: requiresThreeDSecure(body.amount, currency) }
+
+    logger.info(
+      { orderId: order.id, amount: body.amount, threeDSecureRequired: threeDSecure.required },
+      'Online checkout intent created'
+    )
 
     return successResponse({
       orderId: order.id,
@@ -57,6 +67,7 @@ export async function POST(req: NextRequest) {
       amount: body.amount,
       currency,
       publicKey: process.env.SHIFT4_PUBLIC_KEY,
+      threeDSecure,
       clientConfig: {
         amount: body.amount,
         currency,
@@ -0,0 +1,195 @@
+/**
+ * POST /api/v1/checkout/terminal/[transactionId]/cancel
+ * Cancel an in-flight terminal payment
+ *
+ * The cancel is claimed on the TerminalTransaction first, so the background
+ * payment can no longer write a result. If the device refuses the cancel
+ * because the card was approved as it was sent, the approval is voided; if
+ * that fails too, the approval is recorded so the charge is not lost. If the
+ * device can't be reached, the claim is dropped so the background payment can
+ * still record its result.
+ */
+
+import { NextRequest } from 'next/server'
+import type { Terminal, TerminalTransaction } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { errorResponse, successResponse, withIdempotency } from '@/lib/api-utils'
+import { releaseTerminalLock } from '@/lib/terminal-lock'
+import {
+  abortTerminalTransaction,
+  recordTerminalResult,
+  recordTerminalCancelled,
+} from '@/lib/terminal-payments'
+import { getTerminalTransactionStatus, publishTerminalStatus } from '@/lib/terminal-events'
+import { createTerminalClient, isFinalTransactionStatus, PaymentError } from '@/payments'
+import type { VoidResult } from '@/payments'
+import { logger } from '@/payments/logger'
+
+type RouteContext = { params: { transactionId: string } }
+
+export const POST = withIdempotency<RouteContext>(cancelTerminalPayment)
+
+async function cancelTerminalPayment(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { transactionId } = params
+
+    const transaction = await prisma.terminalTransaction.findUnique({
+      where: { transactionId },
+    })
+
+    if (!transaction) {
+      return errorResponse(new Error('Transaction not found'), 404)
+    }
+
+    if (transaction.requestType !== 'payment' && transaction.requestType !== 'authorization') {
+      return errorResponse(new Error('Only payments and authorizations can be cancelled'), 400)
+    }
+
+    // Claim the cancel; from here on the background payment cannot record a result
+    const { count } = await prisma.terminalTransaction.updateMany({
+      where: {
+        transactionId,
+        status: { in: ['PENDING', 'AWAITING_CARD'] },
+        cancelRequestedAt: null,
+      },
+      data: { cancelRequestedAt: new Date() },
+    })
+
+    if (count === 0) {
+      return errorResponse(
+        new PaymentError(
+          isFinalTransactionStatus(transaction.status)
+            ? 'Transaction has already completed'
+            : 'Transaction is already being cancelled',
+          'TRANSACTION_NOT_CANCELLABLE',
+          409
+        )
+      )
+    }
+
+    publishTerminalStatus(transactionId, 'cancelling')
+
+    // Read after the claim: a payment still PENDING now can no longer reach the device
+    const claimed = await prisma.terminalTransaction.findUniqueOrThrow({
+      where: { transactionId },
+      include: { terminal: true },
+    })
+
+    let outcome: CancelOutcome
+    try {
+      outcome = await resolveCancel(claimed, claimed.terminal)
+    } catch (error) {
+      // Device offline or timed out: treat it like a refused cancel
+      logger.error({ error, transactionId }, 'Terminal cancel failed')
+      outcome = { status: 'unknown', error: error instanceof Error ? error.message : undefined }
+    }
+
+    if (outcome.status === 'unknown') {
+      // Drop the claim so the background payment can still record the result
+      await prisma.terminalTransaction.update({
+        where: { transactionId },
+        data: { cancelRequestedAt: null },
+      })
+      publishTerminalStatus(
+        transactionId,
+        getTerminalTransactionStatus({ ...claimed, cancelRequestedAt: null })
+      )
+
+      return errorResponse(
+        new PaymentError(
+          `Terminal did not accept the cancel: ${outcome.error || 'Unknown error'}`,
+          'CANCEL_FAILED',
+          502,
+          true
+        )
+      )
+    }
+
+    // Resolved here; stop waiting on the device and free it for the next sale
+    abortTerminalTransaction(transactionId)
+    await releaseTerminalLock(claimed.terminalId, transactionId)
+
+    if (outcome.status === 'approved') {
+      // The approval stands, so the cancel no longer applies
+      await prisma.terminalTransaction.update({
+        where: { transactionId },
+        data: { cancelRequestedAt: null },
+      })
+
+      const error = new PaymentError(
+        'Transaction was approved before it could be cancelled',
+        'CANCEL_TOO_LATE',
+        409
+      )
+      error.details = { transactionId, status: 'approved', voidError: outcome.error }
+      return errorResponse(error)
+    }
+
+    return successResponse({
+      transactionId,
+      status: 'cancelled',
+      voided: outcome.voided,
+    })
+  } catch (error) {
+    logger.error({ error, transactionId: params.transactionId }, 'Failed to cancel terminal payment')
+    return errorResponse(error)
+  }
+}
+
+type CancelOutcome =
+  | { status: 'cancelled'; voided?: boolean }
+  | { status: 'approved'; error?: string } // Approved and could not be voided
+  | { status: 'unknown'; error?: string } // Device refused the cancel and its state is unclear
+
+/**
+ * Cancel on the device and record the outcome on the transaction
+ */
+async function resolveCancel(
+  transaction: TerminalTransaction,
+  terminal: Terminal
+): Promise<CancelOutcome> {
+  const { transactionId } = transaction
+
+  // Never sent to the device (still queued or being set up)
+  if (transaction.status === 'PENDING') {
+    await recordTerminalCancelled(transaction, 'Cancelled before reaching the terminal')
+    return { status: 'cancelled' }
+  }
+
+  const terminalClient = createTerminalClient(terminal)
+  const cancelResult = await terminalClient.cancel(transactionId)
+
+  if (cancelResult.cancelled) {
+    await recordTerminalCancelled(transaction, 'Cancelled by operator')
+    return { status: 'cancelled' }
+  }
+
+  // The device refused the cancel; find out what it did with the transaction
+  const status = await terminalClient.getStatus(transactionId)
+
+  if (status.approved && status.result) {
+    logger.warn({ transactionId }, 'Terminal payment approved as cancel was sent')
+
+    // A void that can't reach the device is treated like a refused one
+    const voidResult: VoidResult = await terminalClient.void(transactionId).catch((error) => {
+      logger.error({ error, transactionId }, 'Failed to void payment approved as cancel was sent')
+      return { voided: false, error: error instanceof Error ? error.message : 'Void failed' }
+    })
+
+    if (voidResult.voided) {
+      await recordTerminalCancelled(transaction, 'Approved as cancel was sent; voided')
+      return { status: 'cancelled', voided: true }
+    }
+
+    // The customer has been charged; keep the approval rather than lose it
+    await recordTerminalResult(transaction, status.result, { ignoreCancel: true })
+    return { status: 'approved', error: voidResult.error }
+  }
+
+  if (status.status === 'declined' || status.status === 'cancelled' || status.status === 'timeout') {
+    await recordTerminalCancelled(transaction, `Cancelled (device reported ${status.status})`)
+    return { status: 'cancelled' }
+  }
+
+  return { status: 'unknown', error: cancelResult.error || status.error }
+}
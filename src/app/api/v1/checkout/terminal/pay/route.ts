@@ -4,14 +4,30 @@
  */
 
 import { NextRequest } from 'next/server'
+import type { TerminalTransaction } from '@prisma/client'
 import { prisma } from '@/lib/db'
 import {
   errorResponse,
   successResponse,
   parseBody,
-  generateIdempotencyKey,
+  getIdempotencyKey,
+  withIdempotency,
 } from '@/lib/api-utils'
-import { createUTGAdapter, createSkyTabAdapter } from '@/payments'
+import {
+  acquireTerminalLock,
+  waitForTerminalLock,
+  releaseTerminalLock,
+} from '@/lib/terminal-lock'
+import {
+  trackTerminalTransaction,
+  untrackTerminalTransaction,
+  recordTerminalResult,
+  recordTerminalFailure,
+} from '@/lib/terminal-payments'
+import { publishTerminalStatus } from '@/lib/terminal-events'
+import { transitionTerminalTransaction, markCardPresented } from '@/lib/terminal-transactions'
+import { createTerminalClient, TerminalError } from '@/payments'
+import type { Currency } from '@/payments'
 import { logger, paymentLogger } from '@/payments/logger'
 import { nanoid } from 'nanoid'
 
@@ -22,9 +38,13 @@ interface TerminalPayRequest {
   currency?: string
   tipMode?: 'prompt' | 'none' | 'fixed'
   fixedTipAmount?: number
+  capture?: boolean // false = pre-authorize only (e.g. open a tab), capture later
+  queue?: boolean // Wait for a busy terminal instead of failing with 409 TERMINAL_BUSY
 }
 
-export async function POST(req: NextRequest) {
+export const POST = withIdempotency(startTerminalPayment)
+
+async function startTerminalPayment(req: NextRequest) {
   try {
     const body = await parseBody<TerminalPayRequest>(req)
 
@@ -51,112 +71,103 @@ export async function POST(req: NextRequest) {
     }
 
     // Create terminal client
-    const terminalClient =
-      terminal.type === 'UTG'
-        ? createUTGAdapter(terminal.id)
-        : createSkyTabAdapter(terminal.id, terminal.apiTerminalId)
+    const terminalClient = createTerminalClient(terminal)
 
     // Generate transaction ID
     const transactionId = nanoid()
+    const idempotencyKey = getIdempotencyKey(req, 'term')
+    const capture = body.capture ?? true
+
+    // One transaction per PIN pad; in queue mode the lock is taken in the background
+    if (!body.queue) {
+      await acquireTerminalLock(terminal.id, transactionId)
+    }
 
     // Log terminal transaction start
-    await prisma.terminalTransaction.create({
-      data: {
-        terminalId: terminal.id,
-        transactionId,
-        requestType: 'payment',
-        amount: body.amount,
-        currency: body.currency || 'usd',
-        requestData: {
-          orderId: body.orderId,
-          tipMode: body.tipMode,
+    let transaction: TerminalTransaction
+    try {
+      transaction = await prisma.terminalTransaction.create({
+        data: {
+          terminalId: terminal.id,
+          transactionId,
+          requestType: capture ? 'payment' : 'authorization',
+          amount: body.amount,
+          currency: body.currency || 'usd',
+          requestData: {
+            orderId: body.orderId,
+            tipMode: body.tipMode,
+            queued: body.queue || undefined,
+            idempotencyKey,
+          },
+          startedAt: new Date(),
         },
-        startedAt: new Date(),
-      },
-    })
+      })
+    } catch (error) {
+      await releaseTerminalLock(terminal.id, transactionId)
+      throw error
+    }
 
     paymentLogger.terminalPaymentStarted(terminal.id, body.amount, transactionId)
 
+    const paymentRequest = {
+      terminalId: terminal.id,
+      transactionId,
+      amount: body.amount,
+      currency: (body.currency || 'usd') as Currency,
+      orderId: body.orderId,
+      tipMode: body.tipMode || 'none',
+      fixedTipAmount: body.fixedTipAmount,
+      signal: trackTerminalTransaction(transactionId), // Aborted by the cancel route
+      onStatusChange: (status: string) => {
+        if (status === 'processing') {
+          publishTerminalStatus(transactionId, 'processing')
+          markCardPresented(transactionId).catch((error) =>
+            logger.warn({ error, transactionId }, 'Failed to record card presented')
+          )
+        }
+      },
+    }
+
     // Start payment (async - runs in background)
     // In a real app, this would be handled by a background job/queue
-    terminalClient
-      .startPayment({
-        terminalId: terminal.id,
-        amount: body.amount,
-        currency: body.currency || 'usd',
-        orderId: body.orderId,
-        tipMode: body.tipMode || 'none',
-        fixedTipAmount: body.fixedTipAmount,
-      })
-      .then(async (result) => {
-        // Update transaction log
-        await prisma.terminalTransaction.update({
-          where: { transactionId },
-          data: {
-            approved: result.approved,
-            responseCode: result.responseCode,
-            responseMessage: result.responseMessage,
-            authCode: result.authCode,
-            token: result.token,
-            responseData: result,
-            completedAt: new Date(),
-            durationMs: Date.now() - new Date().getTime(),
-          },
-        })
-
-        if (result.approved) {
-          // Create payment record
-          const idempotencyKey = generateIdempotencyKey('term')
-          await prisma.payment.create({
-            data: {
-              orderId: body.orderId,
-              shift4ChargeId: result.token, // Use token as charge reference
-              amount: result.totalAmount,
-              currency: body.currency || 'usd',
-              status: 'CAPTURED',
-              methodType: 'CARD_TERMINAL',
-              cardBrand: result.cardBrand,
-              cardLast4: result.cardLast4,
-              terminalId: terminal.id,
-              authCode: result.authCode,
-              entryMode: result.entryMode,
-              emvData: result.emvData,
-              idempotencyKey,
-              capturedAt: new Date(),
-              metadata: {
-                transactionId,
-                tipAmount: result.tipAmount,
-              },
-            },
-          })
-
-          // Update order
-          await prisma.order.update({
-            where: { id: body.orderId },
-            data: { status: 'PAID' },
-          })
-
-          paymentLogger.terminalPaymentCompleted(terminal.id, transactionId, true)
-        } else {
-          paymentLogger.terminalPaymentCompleted(terminal.id, transactionId, false)
-        }
-      })
+    const runPayment = async () => {
+      if (body.queue) {
+        await waitForTerminalLock(terminal.id, transactionId)
+      }
+
+      // Fails if cancelled first (possibly from another instance, while queued)
+      const sent = await transitionTerminalTransaction(
+        transactionId,
+        'AWAITING_CARD',
+        {},
+        { cancelRequestedAt: null }
+      )
+
+      if (!sent) {
+        throw new TerminalError('Transaction was cancelled', terminal.id)
+      }
+
+      publishTerminalStatus(transactionId, 'awaiting_card')
+
+      return capture
+        ? terminalClient.startPayment(paymentRequest)
+        : terminalClient.authorize(paymentRequest)
+    }
+
+    runPayment()
+      .then((result) => recordTerminalResult(transaction, result))
       .catch(async (error) => {
         logger.error({ error, transactionId }, 'Terminal payment failed')
-
-        await prisma.terminalTransaction.update({
-          where: { transactionId },
-          data: {
-            approved: false,
-            responseMessage: error.message,
-            completedAt: new Date(),
-          },
-        })
+        await recordTerminalFailure(transaction, error)
+      })
+      .finally(() => {
+        untrackTerminalTransaction(transactionId)
+        return releaseTerminalLock(terminal.id, transactionId)
       })
 
     return successResponse({
       transactionId,
-      status: 'pending',
+      status: body.queue ? 'queued' : 'pending',
     })
   } catch (error) {
     logger.error({ error }, 'Failed to start terminal payment')
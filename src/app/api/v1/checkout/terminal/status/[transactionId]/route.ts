@@ -6,6 +6,7 @@
 import { NextRequest } from 'next/server'
 import { prisma } from '@/lib/db'
 import { errorResponse, successResponse } from '@/lib/api-utils'
+import { getTerminalTransactionStatus } from '@/lib/terminal-events'
 
 export async function GET(
   req: NextRequest,
@@ -26,19 +27,7 @@ export async function GET(
       return errorResponse(new Error('Transaction not found'), 404)
     }
 
-    // Determine status
-    let status: string
-    if (!transaction.completedAt) {
-      status = 'pending'
-    } else if (transaction.approved) {
-      status = 'approved'
-    } else if (transaction.responseCode === 'CA') {
-      status = 'cancelled'
-    } else if (transaction.responseCode === 'TO') {
-      status = 'timeout'
-    } else {
-      status = 'declined'
-    }
+    const status = getTerminalTransactionStatus(transaction)
 
     // If approved, get payment details
     let result = null
@@ -75,6 +64,16 @@ export async function GET(
       approved: transaction.approved,
       result,
       error: !transaction.approved ? transaction.responseMessage : undefined,
+      timing: {
+        startedAt: transaction.startedAt,
+        awaitingCardAt: transaction.awaitingCardAt,
+        cardPresentedAt: transaction.cardPresentedAt,
+        completedAt: transaction.completedAt,
+        durationMs: transaction.durationMs,
+        queueMs: transaction.queueMs,
+        customerMs: transaction.customerMs,
+        authorizationMs: transaction.authorizationMs,
+      },
     })
   } catch (error) {
     return errorResponse(error)
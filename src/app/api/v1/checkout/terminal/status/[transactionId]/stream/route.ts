@@ -0,0 +1,107 @@
+/**
+ * GET /api/v1/checkout/terminal/status/[transactionId]/stream
+ * Stream terminal transaction status as Server-Sent Events
+ *
+ * Sends the current status on connect, then each change as the device
+ * reports it (`event: status`). The stream closes after a final status
+ * (approved, declined, cancelled, timeout).
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import { errorResponse } from '@/lib/api-utils'
+import {
+  getTerminalTransactionStatus,
+  isFinalTerminalStatus,
+  subscribeTerminalStatus,
+} from '@/lib/terminal-events'
+import type { TerminalStatusEvent } from '@/lib/terminal-events'
+
+export const dynamic = 'force-dynamic'
+
+const HEARTBEAT_INTERVAL_MS = 15000 // Keeps proxies from closing an idle stream
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { transactionId: string } }
+) {
+  const { transactionId } = params
+
+  // Subscribe before reading so a change in between is not lost
+  const buffered: TerminalStatusEvent[] = []
+  let forward: (event: TerminalStatusEvent) => void = (event) => buffered.push(event)
+  const unsubscribe = subscribeTerminalStatus(transactionId, (event) => forward(event))
+
+  let transaction
+  try {
+    transaction = await prisma.terminalTransaction.findUnique({
+      where: { transactionId },
+    })
+  } catch (error) {
+    unsubscribe()
+    return errorResponse(error)
+  }
+
+  if (!transaction) {
+    unsubscribe()
+    return errorResponse(new Error('Transaction not found'), 404)
+  }
+
+  const current: TerminalStatusEvent = {
+    transactionId,
+    status: getTerminalTransactionStatus(transaction),
+    approved: transaction.approved ?? undefined,
+    error: transaction.approved === false ? transaction.responseMessage ?? undefined : undefined,
+    timestamp: new Date().toISOString(),
+  }
+
+  const encoder = new TextEncoder()
+  let heartbeat: ReturnType<typeof setInterval> | undefined
+  let closed = false
+
+  const cleanup = () => {
+    closed = true
+    unsubscribe()
+    clearInterval(heartbeat)
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (closed) return
+        cleanup()
+        controller.close()
+      }
+
+      const send = (event: TerminalStatusEvent) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(`event: status\ndata: ${JSON.stringify(event)}\n\n`))
+        if (isFinalTerminalStatus(event.status)) {
+          close()
+        }
+      }
+
+      send(current)
+      buffered.forEach(send)
+      forward = send
+
+      heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'))
+      }, HEARTBEAT_INTERVAL_MS)
+
+      req.signal.addEventListener('abort', close)
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable nginx response buffering
+    },
+  })
+}
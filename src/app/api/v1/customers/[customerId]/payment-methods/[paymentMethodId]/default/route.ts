@@ -0,0 +1,28 @@
+/**
+ * POST /api/v1/customers/[customerId]/payment-methods/[paymentMethodId]/default
+ * Make a saved card the customer's default for checkout
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import { errorResponse, successResponse } from '@/lib/api-utils'
+import { setDefaultPaymentMethod } from '@/lib/payment-methods'
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { customerId: string; paymentMethodId: string } }
+) {
+  try {
+    const paymentMethod = await prisma.paymentMethod.findFirst({
+      where: { id: params.paymentMethodId, customerId: params.customerId },
+    })
+
+    if (!paymentMethod) {
+      return errorResponse(new Error('Payment method not found'), 404)
+    }
+
+    return successResponse(await setDefaultPaymentMethod(paymentMethod))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * DELETE /api/v1/customers/[customerId]/payment-methods/[paymentMethodId]
+ * Delete a saved card, in Shift4 as well
+ *
+ * Deleting the default card promotes the most recently added remaining card.
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import { errorResponse } from '@/lib/api-utils'
+import { deletePaymentMethod } from '@/lib/payment-methods'
+import { createShift4Adapter } from '@/payments'
+import { logger } from '@/payments/logger'
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { customerId: string; paymentMethodId: string } }
+) {
+  try {
+    const paymentMethod = await prisma.paymentMethod.findFirst({
+      where: { id: params.paymentMethodId, customerId: params.customerId },
+    })
+
+    if (!paymentMethod) {
+      return errorResponse(new Error('Payment method not found'), 404)
+    }
+
+    await deletePaymentMethod(createShift4Adapter(), paymentMethod)
+
+    return new Response(null, { status: 204 })
+  } catch (error) {
+    logger.error({ error }, 'Failed to delete payment method')
+    return errorResponse(error)
+  }
+}
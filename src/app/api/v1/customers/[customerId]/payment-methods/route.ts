@@ -0,0 +1,77 @@
+/**
+ * Customer payment method endpoints
+ * GET /api/v1/customers/[customerId]/payment-methods - List saved cards
+ * POST /api/v1/customers/[customerId]/payment-methods - Save a card
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import {
+  errorResponse,
+  successResponse,
+  parseBody,
+  withIdempotency,
+} from '@/lib/api-utils'
+import { addPaymentMethod, importLegacyCard } from '@/lib/payment-methods'
+import { createShift4Adapter } from '@/payments'
+import { logger } from '@/payments/logger'
+
+interface AddPaymentMethodRequest {
+  token: string
+  label?: string // e.g. "Personal" or "Business"
+  setDefault?: boolean // The first card is always the default
+}
+
+type RouteContext = { params: { customerId: string } }
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    await importLegacyCard(params.customerId)
+
+    const customer = await prisma.customer.findUnique({
+      where: { id: params.customerId },
+      include: {
+        paymentMethods: { orderBy: [{ isDefault: 'desc' }, { createdAt: 'desc' }] },
+      },
+    })
+
+    if (!customer) {
+      return errorResponse(new Error('Customer not found'), 404)
+    }
+
+    return successResponse(customer.paymentMethods)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export const POST = withIdempotency<RouteContext>(createPaymentMethod)
+
+async function createPaymentMethod(req: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await parseBody<AddPaymentMethodRequest>(req)
+
+    if (!body.token) {
+      return errorResponse(new Error('token is required'), 400)
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { id: params.customerId },
+      include: { user: true },
+    })
+
+    if (!customer) {
+      return errorResponse(new Error('Customer not found'), 404)
+    }
+
+    const paymentMethod = await addPaymentMethod(createShift4Adapter(), customer, body.token, {
+      label: body.label,
+      setDefault: body.setDefault,
+    })
+
+    return successResponse(paymentMethod, 201)
+  } catch (error) {
+    logger.error({ error }, 'Failed to save payment method')
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * POST /api/v1/payments/[paymentId]/capture
+ * Capture an authorized payment (full or partial)
+ *
+ * Terminal pre-authorizations (e.g. bar tabs) are captured on the terminal
+ * with the final amount and tip, or raised with final: false while the tab is open.
+ */
+
+import { NextRequest } from 'next/server'
+import type { Payment } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import {
+  errorResponse,
+  successResponse,
+  parseBody,
+  withIdempotency,
+} from '@/lib/api-utils'
+import { transitionTerminalTransaction } from '@/lib/terminal-transactions'
+import {
+  createShift4Adapter,
+  createTerminalClient,
+  getErrorStatus,
+  getResultStatus,
+  PaymentError,
+} from '@/payments'
+import type { Currency } from '@/payments'
+import { logger, paymentLogger } from '@/payments/logger'
+import { nanoid } from 'nanoid'
+
+interface CaptureRequest {
+  amount?: number // Partial capture; omit to capture the full authorization
+  tipAmount?: number // Terminal only
+  final?: boolean // Terminal only; false = incremental authorization (default true)
+}
+
+type RouteContext = { params: { paymentId: string } }
+
+export const POST = withIdempotency<RouteContext>(capturePayment)
+
+async function capturePayment(req: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await parseBody<CaptureRequest>(req).catch(() => ({} as CaptureRequest))
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: params.paymentId },
+    })
+
+    if (!payment) {
+      return errorResponse(new Error('Payment not found'), 404)
+    }
+
+    if (payment.status !== 'AUTHORIZED') {
+      return errorResponse(new Error(`Payment cannot be captured (status ${payment.status})`), 400)
+    }
+
+    if (payment.methodType === 'CARD_TERMINAL') {
+      return captureTerminalPayment(payment, body)
+    }
+
+    const amount = body.amount ?? payment.amount
+
+    if (amount <= 0 || amount > payment.amount) {
+      return errorResponse(
+        new Error(`Capture amount must be between 1 and ${payment.amount} cents`),
+        400
+      )
+    }
+
+    const shift4 = createShift4Adapter()
+
+    const captureResult = await shift4.captureCharge({
+      chargeId: payment.shift4ChargeId!,
+      amount: amount < payment.amount ? amount : undefined,
+      idempotencyKey: `${payment.idempotencyKey}_capture`,
+    })
+
+    const updated = await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: 'CAPTURED',
+        amount: captureResult.amount,
+        authorizedAmount: payment.authorizedAmount ?? payment.amount,
+        capturedAt: new Date(),
+      },
+    })
+
+    await prisma.order.update({
+      where: { id: payment.orderId },
+      data: { status: 'PAID' },
+    })
+
+    paymentLogger.chargeCaptured(captureResult.chargeId, captureResult.amount)
+
+    return successResponse(updated)
+  } catch (error) {
+    logger.error({ error, paymentId: params.paymentId }, 'Failed to capture payment')
+    return errorResponse(error)
+  }
+}
+
+/**
+ * Capture (or incrementally raise) a terminal pre-authorization
+ */
+async function captureTerminalPayment(payment: Payment, body: CaptureRequest) {
+  const metadata = (payment.metadata as Record<string, any> | null) || {}
+  const originalTransactionId: string | undefined = metadata.transactionId
+  const final = body.final ?? true
+  const amount = body.amount ?? payment.amount
+
+  if (!originalTransactionId || !payment.terminalId) {
+    return errorResponse(new Error('Payment has no terminal authorization to capture'), 400)
+  }
+
+  if (amount <= 0) {
+    return errorResponse(new Error('Capture amount must be positive'), 400)
+  }
+
+  if (body.tipAmount !== undefined && body.tipAmount < 0) {
+    return errorResponse(new Error('Tip amount cannot be negative'), 400)
+  }
+
+  const terminal = await prisma.terminal.findUnique({
+    where: { id: payment.terminalId },
+  })
+
+  if (!terminal) {
+    return errorResponse(new Error('Terminal not found'), 404)
+  }
+
+  const terminalClient = createTerminalClient(terminal)
+
+  // Log terminal transaction start
+  const transactionId = nanoid()
+  const startedAt = new Date()
+  await prisma.terminalTransaction.create({
+    data: {
+      terminalId: terminal.id,
+      transactionId,
+      requestType: final ? 'capture' : 'incremental_auth',
+      amount,
+      currency: payment.currency,
+      requestData: {
+        paymentId: payment.id,
+        originalTransactionId,
+        tipAmount: body.tipAmount,
+      },
+      startedAt,
+    },
+  })
+
+  let result
+  try {
+    result = await terminalClient.capture({
+      transactionId: originalTransactionId,
+      amount,
+      currency: payment.currency as Currency,
+      tipAmount: body.tipAmount,
+      final,
+    })
+  } catch (error) {
+    await transitionTerminalTransaction(transactionId, getErrorStatus(error), {
+      approved: false,
+      responseMessage: error instanceof Error ? error.message : 'Unknown error',
+    })
+    throw error
+  }
+
+  await transitionTerminalTransaction(transactionId, getResultStatus(result), {
+    approved: result.approved,
+    responseCode: result.responseCode,
+    responseMessage: result.responseMessage,
+    authCode: result.authCode,
+    responseData: { ...result },
+  })
+
+  if (!result.approved) {
+    logger.warn(
+      { paymentId: payment.id, terminalId: terminal.id, error: result.error },
+      'Terminal capture declined'
+    )
+    return errorResponse(
+      new PaymentError(result.error || 'Capture declined', 'CAPTURE_DECLINED', 402)
+    )
+  }
+
+  if (!final) {
+    // Tab stays open with a larger hold
+    const updated = await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        amount,
+        authorizedAmount: amount,
+      },
+    })
+
+    return successResponse(updated)
+  }
+
+  const updated = await prisma.payment.update({
+    where: { id: payment.id },
+    data: {
+      status: 'CAPTURED',
+      amount: result.totalAmount,
+      authorizedAmount: payment.authorizedAmount ?? payment.amount,
+      capturedAt: new Date(),
+      metadata: {
+        ...metadata,
+        tipAmount: result.tipAmount ?? body.tipAmount,
+      },
+    },
+  })
+
+  await prisma.order.update({
+    where: { id: payment.orderId },
+    data: { status: 'PAID' },
+  })
+
+  paymentLogger.chargeCaptured(originalTransactionId, result.totalAmount)
+
+  return successResponse(updated)
+}
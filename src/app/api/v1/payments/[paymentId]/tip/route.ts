@@ -0,0 +1,175 @@
+/**
+ * POST /api/v1/payments/[paymentId]/tip
+ * Adjust the tip on a captured terminal payment before the batch settles
+ *
+ * Staff enter tips from signed paper receipts after the card has left, so the
+ * new tip replaces (not adds to) any tip already on the payment. The order
+ * total moves by the same difference, so it keeps matching what was charged.
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import {
+  errorResponse,
+  successResponse,
+  parseBody,
+  withIdempotency,
+} from '@/lib/api-utils'
+import { transitionTerminalTransaction } from '@/lib/terminal-transactions'
+import {
+  createTerminalClient,
+  getErrorStatus,
+  getResultStatus,
+  parseTerminalConfig,
+  PaymentError,
+} from '@/payments'
+import { logger, paymentLogger } from '@/payments/logger'
+import { nanoid } from 'nanoid'
+
+interface TipAdjustRequest {
+  tipAmount: number // New tip in cents, replaces the current tip
+  userId?: string // Staff member making the adjustment (audit trail)
+}
+
+type RouteContext = { params: { paymentId: string } }
+
+export const POST = withIdempotency<RouteContext>(adjustTip)
+
+async function adjustTip(req: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await parseBody<TipAdjustRequest>(req)
+
+    if (!Number.isInteger(body.tipAmount) || body.tipAmount < 0) {
+      return errorResponse(new Error('tipAmount must be a non-negative integer (cents)'), 400)
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: params.paymentId },
+      include: { terminal: true },
+    })
+
+    if (!payment) {
+      return errorResponse(new Error('Payment not found'), 404)
+    }
+
+    if (payment.methodType !== 'CARD_TERMINAL' || !payment.terminal) {
+      return errorResponse(new Error('Tips can only be adjusted on terminal payments'), 400)
+    }
+
+    if (payment.status !== 'CAPTURED') {
+      return errorResponse(
+        new Error(`Tip cannot be adjusted (status ${payment.status})`),
+        400
+      )
+    }
+
+    const metadata = (payment.metadata as Record<string, any> | null) || {}
+    const originalTransactionId: string | undefined = metadata.transactionId
+    const previousTipAmount: number = metadata.tipAmount || 0
+    const baseAmount = payment.amount - previousTipAmount
+
+    if (!originalTransactionId) {
+      return errorResponse(new Error('Payment has no terminal transaction to adjust'), 400)
+    }
+
+    // Per-terminal cap guards against fat-fingered tips (e.g. 5000 instead of 500)
+    const terminal = payment.terminal
+    const { maxTipPercent } = parseTerminalConfig(terminal.type, terminal.config)
+
+    if (maxTipPercent !== undefined && body.tipAmount > (baseAmount * maxTipPercent) / 100) {
+      return errorResponse(
+        new Error(`Tip exceeds the ${maxTipPercent}% maximum for this terminal`),
+        400
+      )
+    }
+
+    const terminalClient = createTerminalClient(terminal)
+
+    // Log terminal transaction start
+    const transactionId = nanoid()
+    const startedAt = new Date()
+    await prisma.terminalTransaction.create({
+      data: {
+        terminalId: terminal.id,
+        transactionId,
+        requestType: 'tip_adjust',
+        amount: body.tipAmount,
+        currency: payment.currency,
+        requestData: {
+          paymentId: payment.id,
+          originalTransactionId,
+          previousTipAmount,
+        },
+        startedAt,
+      },
+    })
+
+    let result
+    try {
+      result = await terminalClient.adjustTip(originalTransactionId, body.tipAmount)
+    } catch (error) {
+      await transitionTerminalTransaction(transactionId, getErrorStatus(error), {
+        approved: false,
+        responseMessage: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+
+    await transitionTerminalTransaction(transactionId, getResultStatus(result), {
+      approved: result.approved,
+      responseCode: result.responseCode,
+      responseMessage: result.responseMessage,
+      responseData: { ...result },
+    })
+
+    if (!result.approved) {
+      return errorResponse(
+        new PaymentError(result.error || 'Tip adjustment declined', 'TIP_ADJUST_DECLINED', 402)
+      )
+    }
+
+    const newAmount = baseAmount + body.tipAmount
+
+    const [updated] = await prisma.$transaction([
+      prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          amount: newAmount,
+          metadata: {
+            ...metadata,
+            tipAmount: body.tipAmount,
+          },
+        },
+      }),
+      prisma.order.update({
+        where: { id: payment.orderId },
+        data: { total: { increment: body.tipAmount - previousTipAmount } },
+      }),
+      prisma.auditLog.create({
+        data: {
+          userId: body.userId,
+          action: 'payment.tip_adjusted',
+          entityType: 'payment',
+          entityId: payment.id,
+          changes: {
+            before: { amount: payment.amount, tipAmount: previousTipAmount },
+            after: { amount: newAmount, tipAmount: body.tipAmount },
+          },
+          ipAddress: req.headers.get('x-forwarded-for') || undefined,
+          userAgent: req.headers.get('user-agent') || undefined,
+          metadata: {
+            terminalId: terminal.id,
+            transactionId,
+          },
+        },
+      }),
+    ])
+
+    paymentLogger.tipAdjusted(payment.id, previousTipAmount, body.tipAmount)
+
+    return successResponse(updated)
+  } catch (error) {
+    logger.error({ error, paymentId: params.paymentId }, 'Failed to adjust tip')
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * POST /api/v1/payments/[paymentId]/void
+ * Void an uncaptured authorization and release the hold on the card
+ */
+
+import { NextRequest } from 'next/server'
+import type { Payment } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import {
+  errorResponse,
+  successResponse,
+  parseBody,
+  withIdempotency,
+} from '@/lib/api-utils'
+import { transitionTerminalTransaction } from '@/lib/terminal-transactions'
+import {
+  createShift4Adapter,
+  createTerminalClient,
+  getErrorStatus,
+  PaymentError,
+} from '@/payments'
+import { logger, paymentLogger } from '@/payments/logger'
+import { nanoid } from 'nanoid'
+
+interface VoidRequest {
+  reason?: string
+}
+
+type RouteContext = { params: { paymentId: string } }
+
+export const POST = withIdempotency<RouteContext>(voidPayment)
+
+async function voidPayment(req: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await parseBody<VoidRequest>(req).catch(() => ({} as VoidRequest))
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: params.paymentId },
+    })
+
+    if (!payment) {
+      return errorResponse(new Error('Payment not found'), 404)
+    }
+
+    if (payment.status !== 'AUTHORIZED') {
+      return errorResponse(
+        new Error(`Only authorized payments can be voided (status ${payment.status}); use a refund instead`),
+        400
+      )
+    }
+
+    if (payment.methodType === 'CARD_TERMINAL') {
+      return voidTerminalPayment(payment, body)
+    }
+
+    const shift4 = createShift4Adapter()
+
+    const voidResult = await shift4.voidCharge({
+      chargeId: payment.shift4ChargeId!,
+      reason: body.reason,
+      idempotencyKey: `${payment.idempotencyKey}_void`,
+    })
+
+    if (!voidResult.voided) {
+      return errorResponse(new Error('Shift4 did not release the authorization'), 502)
+    }
+
+    const updated = await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: 'CANCELLED',
+        voidedAt: new Date(),
+      },
+    })
+
+    paymentLogger.chargeVoided(payment.shift4ChargeId!, body.reason)
+
+    return successResponse(updated)
+  } catch (error) {
+    logger.error({ error, paymentId: params.paymentId }, 'Failed to void payment')
+    return errorResponse(error)
+  }
+}
+
+/**
+ * Void a terminal pre-authorization on the terminal that took it
+ */
+async function voidTerminalPayment(payment: Payment, body: VoidRequest) {
+  const metadata = (payment.metadata as Record<string, any> | null) || {}
+  const originalTransactionId: string | undefined = metadata.transactionId
+
+  if (!originalTransactionId || !payment.terminalId) {
+    return errorResponse(new Error('Payment has no terminal authorization to void'), 400)
+  }
+
+  const terminal = await prisma.terminal.findUnique({
+    where: { id: payment.terminalId },
+  })
+
+  if (!terminal) {
+    return errorResponse(new Error('Terminal not found'), 404)
+  }
+
+  const terminalClient = createTerminalClient(terminal)
+
+  // Log terminal transaction start
+  const transactionId = nanoid()
+  const startedAt = new Date()
+  await prisma.terminalTransaction.create({
+    data: {
+      terminalId: terminal.id,
+      transactionId,
+      requestType: 'void',
+      amount: payment.amount,
+      currency: payment.currency,
+      requestData: {
+        paymentId: payment.id,
+        originalTransactionId,
+        reason: body.reason,
+      },
+      startedAt,
+    },
+  })
+
+  let result
+  try {
+    result = await terminalClient.void(originalTransactionId)
+  } catch (error) {
+    await transitionTerminalTransaction(transactionId, getErrorStatus(error), {
+      approved: false,
+      responseMessage: error instanceof Error ? error.message : 'Unknown error',
+    })
+    throw error
+  }
+
+  await transitionTerminalTransaction(
+    transactionId,
+    result.voided ? 'APPROVED' : 'DECLINED',
+    {
+      approved: result.voided,
+      responseCode: result.responseCode,
+      responseMessage: result.responseMessage,
+      responseData: { ...result },
+    }
+  )
+
+  if (!result.voided) {
+    return errorResponse(
+      new PaymentError(result.error || 'Void declined', 'VOID_DECLINED', 402)
+    )
+  }
+
+  const updated = await prisma.payment.update({
+    where: { id: payment.id },
+    data: {
+      status: 'CANCELLED',
+      voidedAt: new Date(),
+    },
+  })
+
+  paymentLogger.chargeVoided(originalTransactionId, body.reason)
+
+  return successResponse(updated)
+}
@@ -0,0 +1,67 @@
+/**
+ * Plan detail endpoints
+ * GET /api/v1/plans/[planId] - Get plan
+ * PUT /api/v1/plans/[planId] - Rename or (de)activate plan
+ *
+ * Price and billing interval are fixed once created; create a new plan and
+ * move subscribers to it instead.
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import { errorResponse, successResponse, parseBody } from '@/lib/api-utils'
+
+interface UpdatePlanRequest {
+  name?: string
+  description?: string
+  active?: boolean // Inactive plans take no new subscribers
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { planId: string } }
+) {
+  try {
+    const plan = await prisma.plan.findUnique({
+      where: { id: params.planId },
+    })
+
+    if (!plan) {
+      return errorResponse(new Error('Plan not found'), 404)
+    }
+
+    return successResponse(plan)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { planId: string } }
+) {
+  try {
+    const body = await parseBody<UpdatePlanRequest>(req)
+
+    const existing = await prisma.plan.findUnique({
+      where: { id: params.planId },
+    })
+
+    if (!existing) {
+      return errorResponse(new Error('Plan not found'), 404)
+    }
+
+    const plan = await prisma.plan.update({
+      where: { id: params.planId },
+      data: {
+        name: body.name,
+        description: body.description,
+        active: body.active,
+      },
+    })
+
+    return successResponse(plan)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
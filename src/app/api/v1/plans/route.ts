@@ -0,0 +1,92 @@
+/**
+ * Subscription plan endpoints
+ * GET /api/v1/plans - List plans
+ * POST /api/v1/plans - Create plan
+ */
+
+import { NextRequest } from 'next/server'
+import type { BillingInterval } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { errorResponse, successResponse, parseBody } from '@/lib/api-utils'
+import type { Currency } from '@/payments'
+import { logger } from '@/payments/logger'
+
+interface CreatePlanRequest {
+  name: string
+  description?: string
+  amount: number // Per billing period, in cents
+  currency?: Currency
+  interval?: BillingInterval // Default MONTH
+  intervalCount?: number // e.g. 3 with MONTH bills quarterly
+  trialDays?: number
+}
+
+const INTERVALS: BillingInterval[] = ['DAY', 'WEEK', 'MONTH', 'YEAR']
+const CURRENCIES: Currency[] = ['usd', 'eur', 'gbp', 'cad']
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const active = searchParams.get('active')
+
+    const where: any = {}
+    if (active) where.active = active === 'true'
+
+    const plans = await prisma.plan.findMany({
+      where,
+      orderBy: { amount: 'asc' },
+    })
+
+    return successResponse(plans)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await parseBody<CreatePlanRequest>(req)
+
+    if (!body.name || !Number.isInteger(body.amount) || body.amount <= 0) {
+      return errorResponse(new Error('name and a positive integer amount are required'), 400)
+    }
+
+    if (body.interval && !INTERVALS.includes(body.interval)) {
+      return errorResponse(new Error(`interval must be one of ${INTERVALS.join(', ')}`), 400)
+    }
+
+    if (body.currency && !CURRENCIES.includes(body.currency)) {
+      return errorResponse(new Error(`currency must be one of ${CURRENCIES.join(', ')}`), 400)
+    }
+
+    const intervalCount = body.intervalCount ?? 1
+    const trialDays = body.trialDays ?? 0
+
+    if (!Number.isInteger(intervalCount) || intervalCount < 1) {
+      return errorResponse(new Error('intervalCount must be a positive integer'), 400)
+    }
+
+    if (!Number.isInteger(trialDays) || trialDays < 0) {
+      return errorResponse(new Error('trialDays must be zero or more'), 400)
+    }
+
+    const plan = await prisma.plan.create({
+      data: {
+        name: body.name,
+        description: body.description,
+        amount: body.amount,
+        currency: body.currency || 'usd',
+        interval: body.interval || 'MONTH',
+        intervalCount,
+        trialDays,
+      },
+    })
+
+    logger.info({ planId: plan.id, amount: plan.amount, interval: plan.interval }, 'Plan created')
+
+    return successResponse(plan, 201)
+  } catch (error) {
+    logger.error({ error }, 'Failed to create plan')
+    return errorResponse(error)
+  }
+}
@@ -4,25 +4,41 @@
  */
 
 import { NextRequest } from 'next/server'
+import type { Order, Payment } from '@prisma/client'
 import { prisma } from '@/lib/db'
 import {
   errorResponse,
   successResponse,
   parseBody,
-  generateIdempotencyKey,
+  getIdempotencyKey,
+  withIdempotency,
   getPaginationParams,
   paginationMeta,
 } from '@/lib/api-utils'
-import { createShift4Adapter } from '@/payments'
+import { acquireTerminalLock, releaseTerminalLock } from '@/lib/terminal-lock'
+import { transitionTerminalTransaction } from '@/lib/terminal-transactions'
+import {
+  createShift4Adapter,
+  createTerminalClient,
+  getErrorStatus,
+  PaymentError,
+} from '@/payments'
+import type { Currency } from '@/payments'
 import { logger, paymentLogger } from '@/payments/logger'
+import { nanoid } from 'nanoid'
 
 interface CreateRefundRequest {
   paymentId: string
   amount?: number
   reason?: string
+  terminalId?: string // Card-present only: refund on a different terminal than the sale
 }
 
-export async function POST(req: NextRequest) {
+type PaymentWithOrder = Payment & { order: Order }
+
+export const POST = withIdempotency(createRefund)
+
+async function createRefund(req: NextRequest) {
   try {
     const body = await parseBody<CreateRefundRequest>(req)
 
@@ -40,7 +56,25 @@ export async function POST(req: NextRequest) {
       return errorResponse(new Error('Payment already refunded'), 400)
     }
 
+    // Nothing has been captured yet, so there is nothing to refund
+    if (payment.status === 'AUTHORIZED') {
+      return errorResponse(
+        new Error(
+          `Payment has not been captured; release the authorization with POST /api/v1/payments/${payment.id}/void`
+        ),
+        400
+      )
+    }
+
+    if (payment.status !== 'CAPTURED' && payment.status !== 'PARTIALLY_REFUNDED') {
+      return errorResponse(
+        new Error(`Cannot refund a ${payment.status.toLowerCase()} payment`),
+        400
+      )
+    }
+
     const refundAmount = body.amount || payment.amount
+    const idempotencyKey = getIdempotencyKey(req, 'ref')
 
     // Validate refund amount
     const existingRefunds = await prisma.refund.findMany({
@@ -68,6 +102,7 @@ export async function POST(req: NextRequest) {
           orderId: payment.orderId,
           paymentId: payment.id,
         },
+        idempotencyKey,
       })
 
       // Create refund record
@@ -80,34 +115,12 @@ export async function POST(req: NextRequest) {
           currency: payment.currency,
           status: refundResult.status === 'succeeded' ? 'SUCCEEDED' : 'PENDING',
           reason: body.reason,
-          idempotencyKey: generateIdempotencyKey('ref'),
+          idempotencyKey,
           processedAt: refundResult.status === 'succeeded' ? new Date() : null,
         },
       })
 
-      // Update payment status
-      const newTotalRefunded = totalRefunded + refundAmount
-      await prisma.payment.update({
-        where: { id: payment.id },
-        data: {
-          status:
-            newTotalRefunded >= payment.amount
-              ? 'REFUNDED'
-              : 'PARTIALLY_REFUNDED',
-        },
-      })
-
-      // Update order
-      await prisma.order.update({
-        where: { id: payment.orderId },
-        data: {
-          refundedTotal: { increment: refundAmount },
-          status:
-            newTotalRefunded >= payment.order.total
-              ? 'REFUNDED'
-              : 'PARTIALLY_REFUNDED',
-        },
-      })
+      await applyRefundToPayment(payment, totalRefunded, refundAmount)
 
       paymentLogger.refundCreated(refund.id, payment.shift4ChargeId!, refundAmount)
 
@@ -115,15 +128,189 @@ export async function POST(req: NextRequest) {
     }
 
     // Terminal refund (UTG/SkyTab)
-    // TODO: Implement terminal refund logic using TerminalClient.refund()
+    if (payment.methodType === 'CARD_TERMINAL') {
+      return await createTerminalRefund(
+        payment,
+        body,
+        idempotencyKey,
+        totalRefunded,
+        refundAmount
+      )
+    }
 
-    return errorResponse(new Error('Terminal refunds not yet implemented'), 501)
+    return errorResponse(new Error(`Unsupported payment method: ${payment.methodType}`), 400)
   } catch (error) {
     logger.error({ error }, 'Failed to create refund')
     return errorResponse(error)
   }
 }
 
+/**
+ * Refund a card-present payment through the terminal adapter
+ * Same-terminal refunds reference the original transaction; refunds on a
+ * different terminal fall back to the stored card token
+ */
+async function createTerminalRefund(
+  payment: PaymentWithOrder,
+  body: CreateRefundRequest,
+  idempotencyKey: string,
+  totalRefunded: number,
+  refundAmount: number
+) {
+  const terminalId = body.terminalId || payment.terminalId
+
+  if (!terminalId) {
+    return errorResponse(new Error('Payment has no terminal and no terminalId was given'), 400)
+  }
+
+  const terminal = await prisma.terminal.findUnique({
+    where: { id: terminalId },
+  })
+
+  if (!terminal) {
+    return errorResponse(new Error('Terminal not found'), 404)
+  }
+
+  if (terminal.status !== 'ACTIVE') {
+    return errorResponse(new Error('Terminal is not active'), 400)
+  }
+
+  const metadata = (payment.metadata as Record<string, any> | null) || {}
+  const originalTransactionId: string | undefined = metadata.transactionId
+  const token = payment.shift4ChargeId || undefined
+  const sameTerminal = terminal.id === payment.terminalId
+
+  if (!sameTerminal && !token) {
+    return errorResponse(
+      new Error('No stored card token; refund must be made on the original terminal'),
+      400
+    )
+  }
+
+  const terminalClient = createTerminalClient(terminal)
+
+  // Card-present refunds prompt on the device, so they need the terminal to themselves
+  const transactionId = nanoid()
+  await acquireTerminalLock(terminal.id, transactionId)
+
+  // Log terminal transaction start
+  const startedAt = new Date()
+  let refundResult
+  try {
+    await prisma.terminalTransaction.create({
+      data: {
+        terminalId: terminal.id,
+        transactionId,
+        requestType: 'refund',
+        amount: refundAmount,
+        currency: payment.currency,
+        requestData: {
+          paymentId: payment.id,
+          originalTerminalId: payment.terminalId,
+          originalTransactionId: sameTerminal ? originalTransactionId : undefined,
+          reason: body.reason,
+        },
+        startedAt,
+      },
+    })
+
+    try {
+      refundResult = await terminalClient.refund({
+        transactionId: sameTerminal ? originalTransactionId : undefined,
+        token,
+        amount: refundAmount,
+        currency: payment.currency as Currency,
+        reason: body.reason,
+      })
+    } catch (error) {
+      await transitionTerminalTransaction(transactionId, getErrorStatus(error), {
+        approved: false,
+        responseMessage: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  } finally {
+    await releaseTerminalLock(terminal.id, transactionId)
+  }
+
+  await transitionTerminalTransaction(
+    transactionId,
+    refundResult.approved ? 'APPROVED' : 'DECLINED',
+    {
+      approved: refundResult.approved,
+      responseCode: refundResult.responseCode,
+      responseMessage: refundResult.responseMessage,
+      responseData: { ...refundResult },
+    }
+  )
+
+  // Create refund record
+  const refund = await prisma.refund.create({
+    data: {
+      orderId: payment.orderId,
+      paymentId: payment.id,
+      shift4RefundId: refundResult.refundId,
+      amount: refundAmount,
+      currency: payment.currency,
+      status: refundResult.approved ? 'SUCCEEDED' : 'FAILED',
+      reason: body.reason,
+      idempotencyKey,
+      processedAt: refundResult.approved ? new Date() : null,
+      failureCode: refundResult.approved ? null : refundResult.responseCode,
+      failureMessage: refundResult.approved ? null : refundResult.error,
+    },
+  })
+
+  if (!refundResult.approved) {
+    logger.warn(
+      { refundId: refund.id, terminalId: terminal.id, error: refundResult.error },
+      'Terminal refund declined'
+    )
+    return errorResponse(
+      new PaymentError(refundResult.error || 'Refund declined', 'REFUND_DECLINED', 402)
+    )
+  }
+
+  await applyRefundToPayment(payment, totalRefunded, refundAmount)
+
+  paymentLogger.refundCreated(refund.id, transactionId, refundAmount)
+
+  return successResponse(refund, 200)
+}
+
+/**
+ * Update payment and order status after a successful refund
+ */
+async function applyRefundToPayment(
+  payment: PaymentWithOrder,
+  totalRefunded: number,
+  refundAmount: number
+) {
+  // Update payment status
+  const newTotalRefunded = totalRefunded + refundAmount
+  await prisma.payment.update({
+    where: { id: payment.id },
+    data: {
+      status:
+        newTotalRefunded >= payment.amount
+          ? 'REFUNDED'
+          : 'PARTIALLY_REFUNDED',
+    },
+  })
+
+  // Update order
+  await prisma.order.update({
+    where: { id: payment.orderId },
+    data: {
+      refundedTotal: { increment: refundAmount },
+      status:
+        newTotalRefunded >= payment.order.total
+          ? 'REFUNDED'
+          : 'PARTIALLY_REFUNDED',
+    },
+  })
+}
+
 export async function GET(req: NextRequest) {
   try {
     const { page, limit } = getPaginationParams(req)
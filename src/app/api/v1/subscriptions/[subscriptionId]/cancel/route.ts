@@ -0,0 +1,44 @@
+/**
+ * POST /api/v1/subscriptions/[subscriptionId]/cancel
+ * Cancel a subscription at the end of the paid period, or immediately
+ *
+ * Immediate cancellation does not refund the rest of the period. Past-due
+ * subscriptions are always cancelled immediately.
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import {
+  errorResponse,
+  successResponse,
+  parseBody,
+  withIdempotency,
+} from '@/lib/api-utils'
+import { cancelSubscription } from '@/lib/subscriptions'
+
+interface CancelRequest {
+  atPeriodEnd?: boolean // Default true
+  reason?: string
+}
+
+type RouteContext = { params: { subscriptionId: string } }
+
+export const POST = withIdempotency<RouteContext>(requestCancellation)
+
+async function requestCancellation(req: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await parseBody<CancelRequest>(req).catch(() => ({} as CancelRequest))
+
+    const subscription = await prisma.subscription.findUnique({
+      where: { id: params.subscriptionId },
+    })
+
+    if (!subscription) {
+      return errorResponse(new Error('Subscription not found'), 404)
+    }
+
+    return successResponse(await cancelSubscription(subscription, body))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * POST /api/v1/subscriptions/[subscriptionId]/plan
+ * Switch a subscription to another plan, prorating the current period
+ *
+ * Unused time on the old plan is credited and the balance for the new plan
+ * is charged now; a net credit is taken off the next renewals.
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import {
+  errorResponse,
+  successResponse,
+  parseBody,
+  withIdempotency,
+} from '@/lib/api-utils'
+import { changeSubscriptionPlan } from '@/lib/subscriptions'
+import { logger } from '@/payments/logger'
+
+interface ChangePlanRequest {
+  planId: string
+}
+
+type RouteContext = { params: { subscriptionId: string } }
+
+export const POST = withIdempotency<RouteContext>(changePlan)
+
+async function changePlan(req: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await parseBody<ChangePlanRequest>(req)
+
+    if (!body.planId) {
+      return errorResponse(new Error('planId is required'), 400)
+    }
+
+    const [subscription, plan] = await Promise.all([
+      prisma.subscription.findUnique({
+        where: { id: params.subscriptionId },
+        include: { plan: true, customer: true, paymentMethod: true },
+      }),
+      prisma.plan.findUnique({ where: { id: body.planId } }),
+    ])
+
+    if (!subscription) {
+      return errorResponse(new Error('Subscription not found'), 404)
+    }
+
+    if (!plan) {
+      return errorResponse(new Error('Plan not found'), 404)
+    }
+
+    if (!plan.active) {
+      return errorResponse(new Error('Plan is not available for new subscriptions'), 400)
+    }
+
+    return successResponse(await changeSubscriptionPlan(subscription, plan))
+  } catch (error) {
+    logger.error({ error }, 'Failed to change subscription plan')
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * GET /api/v1/subscriptions/[subscriptionId]
+ * Get a subscription with its plan and billing history
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import { errorResponse, successResponse } from '@/lib/api-utils'
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { subscriptionId: string } }
+) {
+  try {
+    const subscription = await prisma.subscription.findUnique({
+      where: { id: params.subscriptionId },
+      include: {
+        plan: true,
+        paymentMethod: true,
+        orders: {
+          include: { payments: true },
+          orderBy: { createdAt: 'desc' },
+          take: 12,
+        },
+      },
+    })
+
+    if (!subscription) {
+      return errorResponse(new Error('Subscription not found'), 404)
+    }
+
+    return successResponse(subscription)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
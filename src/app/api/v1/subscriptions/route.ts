@@ -0,0 +1,104 @@
+/**
+ * Subscription endpoints
+ * GET /api/v1/subscriptions - List subscriptions
+ * POST /api/v1/subscriptions - Subscribe a customer to a plan
+ *
+ * Without a trial the first period is charged straight away; a decline
+ * returns 402 and leaves the subscription cancelled.
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import {
+  errorResponse,
+  successResponse,
+  parseBody,
+  withIdempotency,
+  getPaginationParams,
+  paginationMeta,
+} from '@/lib/api-utils'
+import { createSubscription } from '@/lib/subscriptions'
+import { logger } from '@/payments/logger'
+
+interface CreateSubscriptionRequest {
+  customerId: string
+  planId: string
+  paymentMethodId?: string // Omit to bill the customer's default card
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { page, limit } = getPaginationParams(req)
+    const { searchParams } = new URL(req.url)
+    const customerId = searchParams.get('customerId')
+    const status = searchParams.get('status')
+
+    const where: any = {}
+    if (customerId) where.customerId = customerId
+    if (status) where.status = status
+
+    const [subscriptions, total] = await Promise.all([
+      prisma.subscription.findMany({
+        where,
+        include: { plan: true },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.subscription.count({ where }),
+    ])
+
+    return successResponse({
+      data: subscriptions,
+      pagination: paginationMeta(total, page, limit),
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export const POST = withIdempotency(subscribe)
+
+async function subscribe(req: NextRequest) {
+  try {
+    const body = await parseBody<CreateSubscriptionRequest>(req)
+
+    if (!body.customerId || !body.planId) {
+      return errorResponse(new Error('customerId and planId are required'), 400)
+    }
+
+    const [customer, plan] = await Promise.all([
+      prisma.customer.findUnique({ where: { id: body.customerId } }),
+      prisma.plan.findUnique({ where: { id: body.planId } }),
+    ])
+
+    if (!customer) {
+      return errorResponse(new Error('Customer not found'), 404)
+    }
+
+    if (!plan) {
+      return errorResponse(new Error('Plan not found'), 404)
+    }
+
+    if (!plan.active) {
+      return errorResponse(new Error('Plan is not available for new subscriptions'), 400)
+    }
+
+    const paymentMethod = body.paymentMethodId
+      ? await prisma.paymentMethod.findFirst({
+          where: { id: body.paymentMethodId, customerId: customer.id },
+        })
+      : null
+
+    if (body.paymentMethodId && !paymentMethod) {
+      return errorResponse(new Error('Payment method not found'), 404)
+    }
+
+    const subscription = await createSubscription(customer, plan, paymentMethod)
+
+    return successResponse(subscription, 201)
+  } catch (error) {
+    logger.error({ error }, 'Failed to create subscription')
+    return errorResponse(error)
+  }
+}
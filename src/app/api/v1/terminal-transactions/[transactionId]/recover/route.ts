@@ -0,0 +1,62 @@
+/**
+ * POST /api/v1/terminal-transactions/[transactionId]/recover
+ * Ask the device again for an open transaction's outcome and record it
+ * (the worker does this automatically; use this once the device is reachable)
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import { errorResponse, successResponse } from '@/lib/api-utils'
+import { holdsTerminalLock } from '@/lib/terminal-lock'
+import { isTerminalTransactionInFlight } from '@/lib/terminal-payments'
+import { recoverTerminalTransaction } from '@/jobs/terminal-recovery'
+import { isFinalTransactionStatus } from '@/payments'
+import { logger } from '@/payments/logger'
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { transactionId: string } }
+) {
+  try {
+    const transaction = await prisma.terminalTransaction.findUnique({
+      where: { transactionId: params.transactionId },
+      include: { terminal: true },
+    })
+
+    if (!transaction) {
+      return errorResponse(new Error('Transaction not found'), 404)
+    }
+
+    if (isFinalTransactionStatus(transaction.status)) {
+      return errorResponse(new Error('Transaction has already completed'), 409)
+    }
+
+    if (transaction.requestType !== 'payment' && transaction.requestType !== 'authorization') {
+      return errorResponse(new Error('Only payments and authorizations can be recovered'), 400)
+    }
+
+    if (
+      isTerminalTransactionInFlight(transaction.transactionId) ||
+      holdsTerminalLock(transaction.terminal, transaction.transactionId)
+    ) {
+      return errorResponse(new Error('Transaction is still running'), 409)
+    }
+
+    const outcome = await recoverTerminalTransaction(transaction)
+
+    const updated = await prisma.terminalTransaction.findUnique({
+      where: { transactionId: transaction.transactionId },
+    })
+
+    return successResponse({
+      transactionId: transaction.transactionId,
+      outcome,
+      status: updated?.status,
+      approved: updated?.approved,
+      attentionReason: updated?.attentionReason,
+    })
+  } catch (error) {
+    logger.error({ error, transactionId: params.transactionId }, 'Failed to recover terminal transaction')
+    return errorResponse(error)
+  }
+}
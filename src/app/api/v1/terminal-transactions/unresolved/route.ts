@@ -0,0 +1,50 @@
+/**
+ * GET /api/v1/terminal-transactions/unresolved
+ * List terminal payments whose outcome could not be recovered from the device
+ *
+ * Query params:
+ * - terminalId: only this terminal
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import {
+  errorResponse,
+  successResponse,
+  getPaginationParams,
+  paginationMeta,
+} from '@/lib/api-utils'
+
+export async function GET(req: NextRequest) {
+  try {
+    const { page, limit } = getPaginationParams(req)
+    const { searchParams } = new URL(req.url)
+    const terminalId = searchParams.get('terminalId')
+
+    const where: any = {
+      needsAttention: true,
+      status: { in: ['PENDING', 'AWAITING_CARD'] },
+    }
+    if (terminalId) where.terminalId = terminalId
+
+    const [transactions, total] = await Promise.all([
+      prisma.terminalTransaction.findMany({
+        where,
+        include: {
+          terminal: { select: { id: true, name: true, type: true } },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { startedAt: 'asc' },
+      }),
+      prisma.terminalTransaction.count({ where }),
+    ])
+
+    return successResponse({
+      data: transactions,
+      pagination: paginationMeta(total, page, limit),
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
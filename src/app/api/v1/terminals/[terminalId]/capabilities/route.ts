@@ -0,0 +1,30 @@
+/**
+ * GET /api/v1/terminals/[terminalId]/capabilities
+ * Ask the device what it supports, falling back to stored capabilities if it is offline
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import { errorResponse, successResponse } from '@/lib/api-utils'
+import { discoverTerminalCapabilities } from '@/lib/terminals'
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { terminalId: string } }
+) {
+  try {
+    const terminal = await prisma.terminal.findUnique({
+      where: { id: params.terminalId },
+    })
+
+    if (!terminal) {
+      return errorResponse(new Error('Terminal not found'), 404)
+    }
+
+    const capabilities = await discoverTerminalCapabilities(terminal)
+
+    return successResponse(capabilities)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -6,7 +6,7 @@
 import { NextRequest } from 'next/server'
 import { prisma } from '@/lib/db'
 import { errorResponse, successResponse } from '@/lib/api-utils'
-import { createUTGAdapter, createSkyTabAdapter } from '@/payments'
+import { createTerminalClient } from '@/payments'
 
 export async function POST(
   req: NextRequest,
@@ -22,10 +22,7 @@ export async function POST(
     }
 
     // Create client
-    const client =
-      terminal.type === 'UTG'
-        ? createUTGAdapter(terminal.id)
-        : createSkyTabAdapter(terminal.id, terminal.apiTerminalId)
+    const client = createTerminalClient(terminal)
 
     // Ping terminal
     const result = await client.ping()
@@ -8,6 +8,7 @@
 import { NextRequest } from 'next/server'
 import { prisma } from '@/lib/db'
 import { errorResponse, successResponse, parseBody } from '@/lib/api-utils'
+import { parseTerminalConfig } from '@/payments'
 
 export async function GET(
   req: NextRequest,
@@ -35,13 +36,25 @@ export async function PUT(
   try {
     const body = await parseBody<any>(req)
 
+    const existing = await prisma.terminal.findUnique({
+      where: { id: params.terminalId },
+    })
+
+    if (!existing) {
+      return errorResponse(new Error('Terminal not found'), 404)
+    }
+
+    // Config replaces the stored JSON, so validate it whole for the terminal's type
+    const config =
+      body.config !== undefined ? parseTerminalConfig(existing.type, body.config) : undefined
+
     const terminal = await prisma.terminal.update({
       where: { id: params.terminalId },
       data: {
         name: body.name,
         ipAddress: body.ipAddress,
         port: body.port,
-        config: body.config,
+        config,
         locationName: body.locationName,
         status: body.status,
       },
@@ -0,0 +1,33 @@
+/**
+ * POST /api/v1/terminals/[terminalId]/saf/forward
+ * Flush a terminal's offline queue to Shift4 and reconcile the results
+ * (the worker does this automatically; use this once connectivity is restored)
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import { errorResponse, successResponse } from '@/lib/api-utils'
+import { forwardTerminalSAF } from '@/jobs/saf-forward'
+import { logger } from '@/payments/logger'
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { terminalId: string } }
+) {
+  try {
+    const terminal = await prisma.terminal.findUnique({
+      where: { id: params.terminalId },
+    })
+
+    if (!terminal) {
+      return errorResponse(new Error('Terminal not found'), 404)
+    }
+
+    const result = await forwardTerminalSAF(terminal)
+
+    return successResponse(result)
+  } catch (error) {
+    logger.error({ error, terminalId: params.terminalId }, 'Failed to forward SAF queue')
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * GET /api/v1/terminals/[terminalId]/saf
+ * List store-and-forward (offline) transactions for a terminal
+ *
+ * Query params:
+ * - status: QUEUED (default), FORWARDED or DECLINED
+ */
+
+import { NextRequest } from 'next/server'
+import type { SAFStatus } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { errorResponse, successResponse } from '@/lib/api-utils'
+
+const SAF_STATUSES: SAFStatus[] = ['QUEUED', 'FORWARDED', 'DECLINED']
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { terminalId: string } }
+) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const status = (searchParams.get('status') || 'QUEUED') as SAFStatus
+
+    if (!SAF_STATUSES.includes(status)) {
+      return errorResponse(new Error(`status must be one of ${SAF_STATUSES.join(', ')}`), 400)
+    }
+
+    const terminal = await prisma.terminal.findUnique({
+      where: { id: params.terminalId },
+    })
+
+    if (!terminal) {
+      return errorResponse(new Error('Terminal not found'), 404)
+    }
+
+    const transactions = await prisma.terminalTransaction.findMany({
+      where: {
+        terminalId: terminal.id,
+        safStatus: status,
+      },
+      orderBy: { startedAt: 'asc' },
+    })
+
+    return successResponse({
+      terminalId: terminal.id,
+      status,
+      count: transactions.length,
+      totalAmount: transactions.reduce((sum, tx) => sum + (tx.amount || 0), 0),
+      transactions,
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
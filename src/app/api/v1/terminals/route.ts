@@ -7,6 +7,7 @@
 import { NextRequest } from 'next/server'
 import { prisma } from '@/lib/db'
 import { errorResponse, successResponse, parseBody } from '@/lib/api-utils'
+import { parseTerminalConfig } from '@/payments'
 import { logger } from '@/payments/logger'
 
 interface CreateTerminalRequest {
@@ -49,6 +50,8 @@ export async function POST(req: NextRequest) {
       return errorResponse(new Error('Missing required fields'), 400)
     }
 
+    const config = parseTerminalConfig(body.type, body.config)
+
     // Check if API terminal ID already exists
     const existing = await prisma.terminal.findUnique({
       where: { apiTerminalId: body.apiTerminalId },
@@ -69,7 +72,7 @@ export async function POST(req: NextRequest) {
         apiTerminalId: body.apiTerminalId,
         ipAddress: body.ipAddress,
         port: body.port,
-        config: body.config || {},
+        config,
         locationName: body.locationName,
         status: 'ACTIVE',
         supportsEMV: true,
@@ -0,0 +1,49 @@
+/**
+ * POST /api/v1/webhooks/events/[eventId]/replay
+ * Re-run a stored webhook event through the event handlers
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import { errorResponse, successResponse } from '@/lib/api-utils'
+import { replayWebhookEvent } from '@/jobs/webhook-queue'
+import { logger } from '@/payments/logger'
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { eventId: string } }
+) {
+  try {
+    const webhookEvent = await prisma.webhookEvent.findUnique({
+      where: { eventId: params.eventId },
+    })
+
+    if (!webhookEvent) {
+      return errorResponse(new Error('Webhook event not found'), 404)
+    }
+
+    const outcome = await replayWebhookEvent(webhookEvent.id)
+
+    if (outcome === 'skipped') {
+      return errorResponse(new Error('Webhook event is currently being processed'), 409)
+    }
+
+    const updated = await prisma.webhookEvent.findUnique({
+      where: { id: webhookEvent.id },
+    })
+
+    logger.info({ eventId: params.eventId, outcome }, 'Webhook event replayed')
+
+    return successResponse({
+      eventId: params.eventId,
+      outcome,
+      status: updated?.status,
+      processed: updated?.processed,
+      processingError: updated?.processingError,
+      processedAt: updated?.processedAt,
+    })
+  } catch (error) {
+    logger.error({ error, eventId: params.eventId }, 'Failed to replay webhook event')
+    return errorResponse(error)
+  }
+}
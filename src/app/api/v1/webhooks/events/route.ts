@@ -0,0 +1,81 @@
+/**
+ * GET /api/v1/webhooks/events
+ * List stored webhook events
+ */
+
+import { NextRequest } from 'next/server'
+import type { Prisma, WebhookEventStatus } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import {
+  errorResponse,
+  successResponse,
+  getPaginationParams,
+  paginationMeta,
+} from '@/lib/api-utils'
+
+const STATUSES: WebhookEventStatus[] = ['PENDING', 'PROCESSING', 'PROCESSED', 'FAILED', 'DEAD_LETTER']
+
+export async function GET(req: NextRequest) {
+  try {
+    const { page, limit } = getPaginationParams(req)
+    const { searchParams } = new URL(req.url)
+    const eventType = searchParams.get('eventType') || searchParams.get('type')
+    const processed = searchParams.get('processed')
+    const status = searchParams.get('status') as WebhookEventStatus | null
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+
+    if (status && !STATUSES.includes(status)) {
+      return errorResponse(new Error(`status must be one of ${STATUSES.join(', ')}`), 400)
+    }
+
+    const where: Prisma.WebhookEventWhereInput = {}
+    if (eventType) where.eventType = eventType
+    if (processed === 'true' || processed === 'false') {
+      where.processed = processed === 'true'
+    }
+    if (status) where.status = status
+
+    if (from || to) {
+      const fromDate = from ? new Date(from) : undefined
+      const toDate = to ? new Date(to) : undefined
+
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return errorResponse(new Error('Invalid date range'), 400)
+      }
+
+      where.receivedAt = { gte: fromDate, lte: toDate }
+    }
+
+    const [events, total] = await Promise.all([
+      prisma.webhookEvent.findMany({
+        where,
+        select: {
+          id: true,
+          eventId: true,
+          eventType: true,
+          status: true,
+          processed: true,
+          processedAt: true,
+          processingError: true,
+          retryCount: true,
+          attempts: true,
+          nextAttemptAt: true,
+          deadLetteredAt: true,
+          receivedAt: true,
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { receivedAt: 'desc' },
+      }),
+      prisma.webhookEvent.count({ where }),
+    ])
+
+    return successResponse({
+      data: events,
+      pagination: paginationMeta(total, page, limit),
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -48,7 +48,7 @@ export default function CheckoutPage() {
       setOrderId(data.orderId)
 
       // Initialize Shift4 JS Components
-      initializeShift4(data.publicKey)
+      initializeShift4(data)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error')
     } finally {
@@ -57,7 +57,13 @@ export default function CheckoutPage() {
   }
 
   // Initialize Shift4 JS Components
-  const initializeShift4 = (publicKey: string) => {
+  const initializeShift4 = (intent: {
+    orderId: string
+    publicKey: string
+    amount: number
+    currency: string
+    threeDSecure: { required: boolean }
+  }) => {
     // @ts-ignore - Shift4 global
     if (typeof Shift4 === 'undefined') {
       setError('Shift4 JS not loaded')
@@ -65,12 +71,45 @@ export default function CheckoutPage() {
     }
 
     // @ts-ignore
-    const shift4 = Shift4(publicKey)
+    const shift4 = Shift4(intent.publicKey)
 
     // Create card element
     const cardElement = shift4.createCardElement()
     cardElement.mount('#card-element')
 
+    // Tokenize the card, verifying it with 3-D Secure when asked to
+    const createToken = async (threeDSecure: boolean): Promise<string> => {
+      const result = await shift4.createToken(cardElement)
+      if (result.error) {
+        throw new Error(result.error.message)
+      }
+
+      if (!threeDSecure) {
+        return result.token.id
+      }
+
+      const verified = await shift4.verifyThreeDSecure({
+        amount: intent.amount,
+        currency: intent.currency,
+        card: result.token.id,
+      })
+      if (verified.error) {
+        throw new Error(verified.error.message)
+      }
+
+      return verified.token.id
+    }
+
+    const confirm = (token: string) =>
+      fetch('/api/v1/checkout/online/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          orderId: intent.orderId,
+          token,
+        }),
+      })
+
     // Handle form submission
     const form = document.getElementById('payment-form')
     form?.addEventListener('submit', async (e) => {
@@ -79,25 +118,17 @@ export default function CheckoutPage() {
       setError(null)
 
       try {
-        // Create token
-        const result = await shift4.createToken(cardElement)
+        // Confirm payment
+        let response = await confirm(await createToken(intent.threeDSecure.required))
 
-        if (result.error) {
-          setError(result.error.message)
-          setLoading(false)
-          return
+        // Soft decline: the issuer wants 3-D Secure, so verify and try once more
+        if (response.status === 402 && !intent.threeDSecure.required) {
+          const data = await response.clone().json()
+          if (data.error?.details?.threeDSecureRequired) {
+            response = await confirm(await createToken(true))
+          }
         }
 
-        // Confirm payment
-        const response = await fetch('/api/v1/checkout/online/confirm', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            orderId,
-            token: result.token.id,
-          }),
-        })
-
         if (!response.ok) {
           const data = await response.json()
           throw new Error(data.error?.message || 'Payment failed')
@@ -0,0 +1,79 @@
+/**
+ * Authorization expiry
+ * Releases online authorizations that were never captured
+ *
+ * Card networks drop uncaptured holds after a few days anyway; voiding them
+ * ourselves frees the customer's funds sooner and keeps Payment/Order in step.
+ */
+
+import { prisma } from '@/lib/db'
+import { createShift4Adapter } from '@/payments'
+import { logger, paymentLogger } from '@/payments/logger'
+
+export const AUTHORIZATION_EXPIRY_DAYS = parseInt(
+  process.env.AUTHORIZATION_EXPIRY_DAYS || '7',
+  10
+)
+
+/**
+ * When an authorization taken now (or at `from`) should be released
+ */
+export function getAuthorizationExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + AUTHORIZATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000)
+}
+
+export interface ExpireAuthorizationsResult {
+  expired: number
+  failed: number
+}
+
+export async function expireAuthorizations(
+  now: Date = new Date()
+): Promise<ExpireAuthorizationsResult> {
+  const payments = await prisma.payment.findMany({
+    where: {
+      status: 'AUTHORIZED',
+      methodType: { in: ['CARD_ONLINE', 'SAVED_CARD'] },
+      authorizationExpiresAt: { lt: now },
+    },
+    take: 100,
+  })
+
+  const result: ExpireAuthorizationsResult = { expired: 0, failed: 0 }
+
+  if (payments.length === 0) {
+    return result
+  }
+
+  const shift4 = createShift4Adapter()
+
+  for (const payment of payments) {
+    try {
+      await shift4.voidCharge({
+        chargeId: payment.shift4ChargeId!,
+        reason: 'authorization_expired',
+        idempotencyKey: `${payment.idempotencyKey}_void`,
+      })
+
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: 'CANCELLED',
+          voidedAt: new Date(),
+          failureCode: 'authorization_expired',
+          failureMessage: 'Authorization expired before capture',
+        },
+      })
+
+      paymentLogger.chargeVoided(payment.shift4ChargeId!, 'authorization_expired')
+      result.expired++
+    } catch (error) {
+      logger.error({ error, paymentId: payment.id }, 'Failed to expire authorization')
+      result.failed++
+    }
+  }
+
+  logger.info(result, 'Authorization expiry complete')
+
+  return result
+}
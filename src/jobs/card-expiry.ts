@@ -0,0 +1,214 @@
+/**
+ * Card expiry sweep
+ * Flags saved cards that are expiring soon or expired and tells the customer
+ *
+ * Each card inside the window is first refreshed from Shift4, which keeps
+ * saved cards current when the bank reissues them; a card with a new expiry
+ * date drops back to VALID. Cards still expiring get a notification once per
+ * status (EXPIRING_SOON, then EXPIRED). Cards are re-checked at most daily.
+ *
+ * Cards saved before wallets existed are only on the Customer row; those in
+ * the window are imported as PaymentMethods first so they are swept too.
+ */
+
+import type { Customer, PaymentMethod } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { notifyCustomer } from '@/lib/notifications'
+import { importLegacyCard, updatePaymentMethodCard } from '@/lib/payment-methods'
+import {
+  createShift4Adapter,
+  getCardExpiresAt,
+  getCardExpiryStatus,
+  getExpiryCutoff,
+  PaymentError,
+} from '@/payments'
+import type { OnlinePaymentAdapter } from '@/payments'
+import { logger } from '@/payments/logger'
+
+const RECHECK_AFTER_MS = 24 * 60 * 60 * 1000
+
+export interface CardExpirySweepResult {
+  checked: number
+  updated: number
+  expiringSoon: number
+  expired: number
+  notified: number
+  failed: number
+}
+
+export async function sweepExpiringCards(now: Date = new Date()): Promise<CardExpirySweepResult> {
+  const cutoff = getExpiryCutoff(now)
+
+  await importExpiringLegacyCards(cutoff)
+
+  const paymentMethods = await prisma.paymentMethod.findMany({
+    where: {
+      OR: [
+        { cardExpYear: { lt: cutoff.expYear } },
+        { cardExpYear: cutoff.expYear, cardExpMonth: { lte: cutoff.expMonth } },
+      ],
+      AND: {
+        OR: [
+          { expiryCheckedAt: null },
+          { expiryCheckedAt: { lt: new Date(now.getTime() - RECHECK_AFTER_MS) } },
+        ],
+      },
+    },
+    include: { customer: true },
+    orderBy: [{ cardExpYear: 'asc' }, { cardExpMonth: 'asc' }],
+    take: 100,
+  })
+
+  const result: CardExpirySweepResult = {
+    checked: 0,
+    updated: 0,
+    expiringSoon: 0,
+    expired: 0,
+    notified: 0,
+    failed: 0,
+  }
+
+  if (paymentMethods.length === 0) {
+    return result
+  }
+
+  const shift4 = createShift4Adapter()
+
+  for (const paymentMethod of paymentMethods) {
+    try {
+      await checkCard(shift4, paymentMethod, now, result)
+      result.checked++
+    } catch (error) {
+      logger.error({ error, paymentMethodId: paymentMethod.id }, 'Failed to check card expiry')
+      result.failed++
+    }
+  }
+
+  logger.info(result, 'Card expiry sweep complete')
+
+  return result
+}
+
+/**
+ * Import cards that are only on the Customer row and fall in the window
+ * Customers with any PaymentMethod have already had theirs imported
+ */
+async function importExpiringLegacyCards(cutoff: { expMonth: number; expYear: number }) {
+  const customers = await prisma.customer.findMany({
+    where: {
+      defaultCardToken: { not: null },
+      paymentMethods: { none: {} },
+      OR: [
+        { cardExpYear: { lt: cutoff.expYear } },
+        { cardExpYear: cutoff.expYear, cardExpMonth: { lte: cutoff.expMonth } },
+      ],
+    },
+    select: { id: true },
+    take: 100,
+  })
+
+  for (const customer of customers) {
+    try {
+      await importLegacyCard(customer.id)
+    } catch (error) {
+      logger.error({ error, customerId: customer.id }, 'Failed to import saved card')
+    }
+  }
+}
+
+async function checkCard(
+  shift4: OnlinePaymentAdapter,
+  paymentMethod: PaymentMethod & { customer: Customer },
+  now: Date,
+  result: CardExpirySweepResult
+): Promise<void> {
+  const current = await refreshCard(shift4, paymentMethod)
+
+  if (current !== paymentMethod) {
+    result.updated++
+  }
+
+  const status = getCardExpiryStatus(current.cardExpMonth, current.cardExpYear, now)
+
+  // A new status needs a new notification
+  let notifiedAt = status === paymentMethod.expiryStatus ? paymentMethod.expiryNotifiedAt : null
+
+  if (status !== 'VALID' && !notifiedAt) {
+    try {
+      await notifyCustomer(
+        status === 'EXPIRED' ? 'payment_method.expired' : 'payment_method.expiring_soon',
+        current.customerId,
+        {
+          paymentMethodId: current.id,
+          label: current.label,
+          cardBrand: current.cardBrand,
+          cardLast4: current.cardLast4,
+          cardExpMonth: current.cardExpMonth,
+          cardExpYear: current.cardExpYear,
+          expiresAt: getCardExpiresAt(current.cardExpMonth, current.cardExpYear).toISOString(),
+          isDefault: current.isDefault,
+        }
+      )
+      notifiedAt = now
+      result.notified++
+    } catch (error) {
+      // Left unnotified, so the next check tries again
+      logger.warn({ error, paymentMethodId: current.id }, 'Failed to send card expiry notification')
+    }
+  }
+
+  await prisma.paymentMethod.update({
+    where: { id: current.id },
+    data: { expiryStatus: status, expiryCheckedAt: now, expiryNotifiedAt: notifiedAt },
+  })
+
+  if (status === 'EXPIRED') result.expired++
+  else if (status === 'EXPIRING_SOON') result.expiringSoon++
+}
+
+/**
+ * Pull the card's current details from Shift4, storing any change
+ * Returns the same object when nothing changed
+ */
+async function refreshCard(
+  shift4: OnlinePaymentAdapter,
+  paymentMethod: PaymentMethod & { customer: Customer }
+): Promise<PaymentMethod> {
+  const shift4CustomerId = paymentMethod.customer.shift4CustomerId
+  if (!shift4CustomerId) {
+    return paymentMethod
+  }
+
+  try {
+    const { card } = await shift4.getPaymentMethod({
+      customerId: shift4CustomerId,
+      cardId: paymentMethod.shift4CardId,
+    })
+
+    if (
+      card.expMonth === paymentMethod.cardExpMonth &&
+      card.expYear === paymentMethod.cardExpYear &&
+      card.last4 === paymentMethod.cardLast4
+    ) {
+      return paymentMethod
+    }
+
+    logger.info(
+      {
+        paymentMethodId: paymentMethod.id,
+        previousExpiry: `${paymentMethod.cardExpMonth}/${paymentMethod.cardExpYear}`,
+        expiry: `${card.expMonth}/${card.expYear}`,
+      },
+      'Saved card updated from Shift4'
+    )
+
+    return updatePaymentMethodCard(paymentMethod, card)
+  } catch (error) {
+    if (!(error instanceof PaymentError && error.statusCode === 404)) {
+      throw error
+    }
+
+    logger.warn({ paymentMethodId: paymentMethod.id }, 'Saved card no longer exists in Shift4')
+    return paymentMethod
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Expired idempotency key cleanup
+ * Removes IdempotencyKey rows past their expiresAt
+ */
+
+import { prisma } from '@/lib/db'
+import { logger } from '@/payments/logger'
+
+export async function cleanupExpiredIdempotencyKeys(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: { expiresAt: { lt: now } },
+  })
+
+  if (count > 0) {
+    logger.info({ count }, 'Expired idempotency keys removed')
+  }
+
+  return count
+}
@@ -0,0 +1,169 @@
+/**
+ * Store-and-forward (SAF) reconciliation
+ * Flushes offline approvals from UTG terminals once Shift4 is reachable again
+ *
+ * While the WAN is down a UTG terminal approves sales under its floor limit
+ * and queues them. Forwarding sends the queue to Shift4; each result is written
+ * back to the TerminalTransaction and Payment. A late decline means the
+ * customer has already left with the goods, so it is logged loudly, the
+ * transaction moves from APPROVED to DECLINED and the order is reopened for
+ * follow-up.
+ */
+
+import type { Terminal } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { createUTGClient, InvalidRequestError } from '@/payments'
+import type { SAFForwardItem } from '@/payments'
+import { logger, paymentLogger } from '@/payments/logger'
+
+export interface ForwardSAFResult {
+  forwarded: number
+  approved: number
+  declined: number
+  unmatched: number
+}
+
+/**
+ * Forward one terminal's SAF queue and reconcile the results
+ */
+export async function forwardTerminalSAF(terminal: Terminal): Promise<ForwardSAFResult> {
+  if (terminal.type !== 'UTG') {
+    throw new InvalidRequestError('Store-and-forward is only supported on UTG terminals')
+  }
+
+  const client = createUTGClient(terminal)
+  const { items } = await client.forwardSAF()
+
+  const result: ForwardSAFResult = {
+    forwarded: items.length,
+    approved: 0,
+    declined: 0,
+    unmatched: 0,
+  }
+
+  for (const item of items) {
+    const matched = await reconcileSAFItem(terminal, item)
+
+    if (!matched) {
+      result.unmatched++
+      logger.warn(
+        { terminalId: terminal.id, transactionId: item.transactionId },
+        'Forwarded SAF transaction has no queued record'
+      )
+      continue
+    }
+
+    if (item.approved) {
+      result.approved++
+    } else {
+      result.declined++
+    }
+  }
+
+  logger.info({ terminalId: terminal.id, ...result }, 'SAF forward complete')
+
+  return result
+}
+
+/**
+ * Forward the queue of every UTG terminal holding offline approvals
+ * Terminals that are still unreachable are skipped until the next run
+ */
+export async function forwardQueuedSAF(): Promise<ForwardSAFResult> {
+  const terminals = await prisma.terminal.findMany({
+    where: {
+      type: 'UTG',
+      transactions: { some: { safStatus: 'QUEUED' } },
+    },
+  })
+
+  const total: ForwardSAFResult = { forwarded: 0, approved: 0, declined: 0, unmatched: 0 }
+
+  for (const terminal of terminals) {
+    try {
+      const result = await forwardTerminalSAF(terminal)
+      total.forwarded += result.forwarded
+      total.approved += result.approved
+      total.declined += result.declined
+      total.unmatched += result.unmatched
+    } catch (error) {
+      logger.warn({ error, terminalId: terminal.id }, 'SAF forward failed, will retry')
+    }
+  }
+
+  return total
+}
+
+/**
+ * Apply one forwarded result to its TerminalTransaction and Payment
+ * Returns false if the item was not in our queue (or was already reconciled)
+ */
+async function reconcileSAFItem(terminal: Terminal, item: SAFForwardItem): Promise<boolean> {
+  const now = new Date()
+
+  const { count } = await prisma.terminalTransaction.updateMany({
+    where: {
+      terminalId: terminal.id,
+      transactionId: item.transactionId,
+      safStatus: 'QUEUED',
+    },
+    data: {
+      safStatus: item.approved ? 'FORWARDED' : 'DECLINED',
+      safForwardedAt: now,
+      approved: item.approved,
+      // The offline approval no longer stands
+      ...(!item.approved && { status: 'DECLINED' as const }),
+      authCode: item.authCode,
+      responseCode: item.responseCode,
+      responseMessage: item.responseMessage,
+    },
+  })
+
+  if (count === 0) {
+    return false
+  }
+
+  const payment = await prisma.payment.findFirst({
+    where: {
+      terminalId: terminal.id,
+      metadata: { path: ['transactionId'], equals: item.transactionId },
+    },
+  })
+
+  if (!payment) {
+    return true
+  }
+
+  const metadata = (payment.metadata as Record<string, any> | null) || {}
+
+  if (item.approved) {
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        authCode: item.authCode ?? payment.authCode,
+        metadata: { ...metadata, safForwardedAt: now.toISOString() },
+      },
+    })
+    return true
+  }
+
+  await prisma.payment.update({
+    where: { id: payment.id },
+    data: {
+      status: 'FAILED',
+      failureCode: 'saf_declined',
+      failureMessage: item.responseMessage || 'Declined when forwarded from offline queue',
+      metadata: { ...metadata, safForwardedAt: now.toISOString() },
+    },
+  })
+
+  // Reopen the order so staff can collect payment another way
+  await prisma.order.update({
+    where: { id: payment.orderId },
+    data: { status: 'PENDING_PAYMENT' },
+  })
+
+  paymentLogger.safDeclined(terminal.id, item.transactionId, item.amount, item.responseMessage)
+
+  return true
+}
@@ -0,0 +1,71 @@
+/**
+ * Subscription renewal
+ * Bills subscriptions whose period (or trial) has ended and retries past-due ones
+ *
+ * Each renewal is an Order charged to the customer's saved card. Declines put
+ * the subscription on the dunning schedule (SUBSCRIPTION_RETRY_DAYS); when
+ * the retries run out it is cancelled. A subscription another worker is
+ * already renewing is skipped.
+ */
+
+import { prisma } from '@/lib/db'
+import { renewSubscription } from '@/lib/subscriptions'
+import { createShift4Adapter } from '@/payments'
+import { logger } from '@/payments/logger'
+
+export interface RenewSubscriptionsResult {
+  renewed: number
+  pastDue: number
+  cancelled: number
+  skipped: number
+  failed: number
+}
+
+export async function renewSubscriptions(
+  now: Date = new Date()
+): Promise<RenewSubscriptionsResult> {
+  const subscriptions = await prisma.subscription.findMany({
+    where: {
+      OR: [
+        { status: { in: ['TRIALING', 'ACTIVE'] }, currentPeriodEnd: { lte: now } },
+        { status: 'PAST_DUE', nextRetryAt: { lte: now } },
+      ],
+    },
+    include: { plan: true, customer: true, paymentMethod: true },
+    orderBy: { currentPeriodEnd: 'asc' },
+    take: 100,
+  })
+
+  const result: RenewSubscriptionsResult = {
+    renewed: 0,
+    pastDue: 0,
+    cancelled: 0,
+    skipped: 0,
+    failed: 0,
+  }
+
+  if (subscriptions.length === 0) {
+    return result
+  }
+
+  const shift4 = createShift4Adapter()
+
+  for (const subscription of subscriptions) {
+    try {
+      const outcome = await renewSubscription(shift4, subscription, now)
+
+      if (outcome === 'renewed') result.renewed++
+      else if (outcome === 'past_due') result.pastDue++
+      else if (outcome === 'cancelled') result.cancelled++
+      else result.skipped++
+    } catch (error) {
+      // Not a decline (e.g. Shift4 unreachable); retried on the next run
+      logger.error({ error, subscriptionId: subscription.id }, 'Failed to renew subscription')
+      result.failed++
+    }
+  }
+
+  logger.info(result, 'Subscription renewal complete')
+
+  return result
+}
@@ -0,0 +1,193 @@
+/**
+ * Orphaned terminal transaction recovery
+ * Finishes terminal payments whose background promise died with the server
+ *
+ * A terminal sale runs in-process after the pay route returns. If the process
+ * restarts while the customer is at the PIN pad, nothing records the result,
+ * even though the card may have been charged. This sweep asks the device what
+ * happened to each stale open transaction and records it through the same
+ * path as a live result. If the device cannot say, the transaction is flagged
+ * for staff to check (GET /api/v1/terminal-transactions/unresolved), and
+ * checked again only every TERMINAL_RECOVERY_RETRY_MS so it can't crowd out
+ * newer transactions. A transaction whose terminal lock is still held is
+ * being driven by a live process (on any server) and is left alone.
+ */
+
+import type { Terminal, TerminalTransaction } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { holdsTerminalLock, releaseTerminalLock } from '@/lib/terminal-lock'
+import { recordTerminalResult } from '@/lib/terminal-payments'
+import { transitionTerminalTransaction } from '@/lib/terminal-transactions'
+import { createTerminalClient } from '@/payments'
+import { logger } from '@/payments/logger'
+
+// Longer than a device waits for a card, so a live payment is never swept
+export const TERMINAL_RECOVERY_AFTER_MS = parseInt(
+  process.env.TERMINAL_RECOVERY_AFTER_MS || '300000',
+  10
+)
+
+// How often a transaction flagged as needing attention is asked about again
+export const TERMINAL_RECOVERY_RETRY_MS = parseInt(
+  process.env.TERMINAL_RECOVERY_RETRY_MS || '900000',
+  10
+)
+
+export interface RecoverTransactionsResult {
+  checked: number
+  recovered: number
+  needsAttention: number
+}
+
+export type RecoveryOutcome = 'recovered' | 'needs_attention'
+
+/**
+ * Recover every stale open sale or authorization
+ */
+export async function recoverOrphanedTransactions(
+  now: Date = new Date()
+): Promise<RecoverTransactionsResult> {
+  const transactions = await prisma.terminalTransaction.findMany({
+    where: {
+      status: { in: ['PENDING', 'AWAITING_CARD'] },
+      requestType: { in: ['payment', 'authorization'] },
+      startedAt: { lt: new Date(now.getTime() - TERMINAL_RECOVERY_AFTER_MS) },
+      OR: [
+        { needsAttention: false },
+        { lastRecoveryAt: { lt: new Date(now.getTime() - TERMINAL_RECOVERY_RETRY_MS) } },
+      ],
+    },
+    include: { terminal: true },
+    orderBy: [{ needsAttention: 'asc' }, { startedAt: 'asc' }],
+    take: 50,
+  })
+
+  const result: RecoverTransactionsResult = { checked: 0, recovered: 0, needsAttention: 0 }
+
+  for (const transaction of transactions) {
+    // Still being driven by a server process
+    if (holdsTerminalLock(transaction.terminal, transaction.transactionId, now)) {
+      continue
+    }
+
+    result.checked++
+
+    try {
+      const outcome = await recoverTerminalTransaction(transaction)
+
+      if (outcome === 'recovered') {
+        result.recovered++
+      } else {
+        result.needsAttention++
+      }
+    } catch (error) {
+      logger.error(
+        { error, transactionId: transaction.transactionId },
+        'Failed to recover terminal transaction'
+      )
+
+      // Flag it so it is listed as unresolved and waits out the retry interval
+      await noteRecoveryAttempt(
+        transaction.transactionId,
+        `Recovery failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ).catch((noteError) =>
+        logger.error(
+          { error: noteError, transactionId: transaction.transactionId },
+          'Failed to flag terminal transaction'
+        )
+      )
+      result.needsAttention++
+    }
+  }
+
+  if (result.checked > 0) {
+    logger.info(result, 'Terminal transaction recovery complete')
+  }
+
+  return result
+}
+
+/**
+ * Ask the device for one transaction's outcome and record it
+ */
+export async function recoverTerminalTransaction(
+  transaction: TerminalTransaction & { terminal: Terminal }
+): Promise<RecoveryOutcome> {
+  const { transactionId } = transaction
+
+  // Never sent to the device (e.g. still queued when the process died)
+  if (transaction.status === 'PENDING') {
+    await transitionTerminalTransaction(transactionId, 'ERROR', {
+      approved: false,
+      responseMessage: 'Server restarted before the transaction reached the terminal',
+    })
+    await noteRecoveryAttempt(transactionId, null)
+    return 'recovered'
+  }
+
+  const client = createTerminalClient(transaction.terminal)
+  const status = await client.getStatus(transactionId)
+
+  if (status.approved && status.result) {
+    // The customer was charged; record it even if a cancel was in progress
+    await recordTerminalResult(transaction, status.result, { ignoreCancel: true })
+  } else if (
+    status.status === 'declined' ||
+    status.status === 'cancelled' ||
+    status.status === 'timeout'
+  ) {
+    const amount = transaction.amount ?? 0
+
+    await recordTerminalResult(
+      transaction,
+      {
+        transactionId,
+        approved: false,
+        amount,
+        totalAmount: amount,
+        errorCode: status.status.toUpperCase(),
+        responseMessage: status.error || `Recovered: device reported ${status.status}`,
+      },
+      { ignoreCancel: true }
+    )
+  } else {
+    const reason =
+      status.status === 'error'
+        ? `Device status check failed: ${status.error || 'Unknown error'}`
+        : `Device still reports ${status.status}`
+
+    await noteRecoveryAttempt(transactionId, reason)
+
+    logger.warn(
+      { transactionId, terminalId: transaction.terminalId, reason },
+      'Terminal transaction needs attention'
+    )
+
+    return 'needs_attention'
+  }
+
+  await noteRecoveryAttempt(transactionId, null)
+  await releaseTerminalLock(transaction.terminalId, transactionId)
+
+  logger.info(
+    { transactionId, terminalId: transaction.terminalId, status: status.status },
+    'Recovered orphaned terminal transaction'
+  )
+
+  return 'recovered'
+}
+
+/**
+ * Count the attempt and set (or clear) the needs-attention flag
+ */
+async function noteRecoveryAttempt(transactionId: string, attentionReason: string | null) {
+  await prisma.terminalTransaction.update({
+    where: { transactionId },
+    data: {
+      recoveryAttempts: { increment: 1 },
+      lastRecoveryAt: new Date(),
+      needsAttention: attentionReason !== null,
+      attentionReason,
+    },
+  })
+}
@@ -0,0 +1,242 @@
+/**
+ * Durable webhook processing queue
+ * Database-backed job runner on top of the WebhookEvent table
+ *
+ * Rows are claimed with a conditional update so several workers (and the
+ * receiver's best-effort inline attempt) never process the same event twice.
+ * Failures are retried with exponential backoff and dead-lettered after
+ * WEBHOOK_MAX_ATTEMPTS or on a permanent error.
+ */
+
+import { nanoid } from 'nanoid'
+import { prisma } from '@/lib/db'
+import { handleWebhookEvent } from '@/lib/webhooks'
+import { PaymentError } from '@/payments/errors'
+import { logger, paymentLogger } from '@/payments/logger'
+
+export const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10)
+export const WEBHOOK_RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '30000', 10)
+export const WEBHOOK_RETRY_MAX_MS = 60 * 60 * 1000
+
+// A claim older than this is assumed to belong to a crashed worker
+const WEBHOOK_LOCK_TIMEOUT_MS = 5 * 60 * 1000
+
+export interface RunWebhookQueueOptions {
+  batchSize?: number
+  workerId?: string
+}
+
+export interface RunWebhookQueueResult {
+  claimed: number
+  processed: number
+  failed: number
+  deadLettered: number
+}
+
+export type ProcessOutcome = 'processed' | 'failed' | 'dead_letter' | 'skipped'
+
+/**
+ * Delay before the next attempt, doubling per attempt up to WEBHOOK_RETRY_MAX_MS
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const delay = WEBHOOK_RETRY_BASE_MS * Math.pow(2, Math.max(attempts - 1, 0))
+  return Math.min(delay, WEBHOOK_RETRY_MAX_MS)
+}
+
+/**
+ * Permanent errors will fail the same way on every attempt
+ * (e.g. an event Shift4 does not recognise), so retrying is pointless
+ */
+function isPermanentError(error: unknown): boolean {
+  return (
+    error instanceof PaymentError &&
+    !error.retryable &&
+    error.statusCode >= 400 &&
+    error.statusCode < 500
+  )
+}
+
+/**
+ * Process one batch of due webhook events
+ */
+export async function runWebhookQueue(
+  options: RunWebhookQueueOptions = {}
+): Promise<RunWebhookQueueResult> {
+  const { batchSize = 25, workerId = `worker_${nanoid(8)}` } = options
+  const now = new Date()
+
+  const candidates = await prisma.webhookEvent.findMany({
+    where: {
+      OR: [
+        { status: { in: ['PENDING', 'FAILED'] }, nextAttemptAt: { lte: now } },
+        {
+          status: 'PROCESSING',
+          lockedAt: { lt: new Date(now.getTime() - WEBHOOK_LOCK_TIMEOUT_MS) },
+        },
+      ],
+    },
+    select: { id: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: batchSize,
+  })
+
+  const result: RunWebhookQueueResult = {
+    claimed: 0,
+    processed: 0,
+    failed: 0,
+    deadLettered: 0,
+  }
+
+  for (const candidate of candidates) {
+    const outcome = await processWebhookEvent(candidate.id, workerId)
+
+    if (outcome === 'skipped') continue
+
+    result.claimed++
+    if (outcome === 'processed') result.processed++
+    if (outcome === 'failed') result.failed++
+    if (outcome === 'dead_letter') result.deadLettered++
+  }
+
+  if (result.claimed > 0) {
+    logger.info({ workerId, ...result }, 'Webhook queue batch complete')
+  }
+
+  return result
+}
+
+/**
+ * Claim and process a single webhook event
+ * Returns 'skipped' if another worker holds the claim or the event is not due
+ */
+export async function processWebhookEvent(
+  webhookEventId: string,
+  workerId: string = `inline_${nanoid(8)}`
+): Promise<ProcessOutcome> {
+  const webhookEvent = await claimWebhookEvent(webhookEventId, workerId)
+
+  if (!webhookEvent) {
+    return 'skipped'
+  }
+
+  const { eventId, eventType } = webhookEvent
+  const attempts = webhookEvent.attempts
+
+  try {
+    await handleWebhookEvent(eventId, eventType)
+
+    await prisma.webhookEvent.update({
+      where: { id: webhookEventId },
+      data: {
+        status: 'PROCESSED',
+        processed: true,
+        processedAt: new Date(),
+        processingError: null,
+        lockedAt: null,
+        lockedBy: null,
+      },
+    })
+
+    paymentLogger.webhookProcessed(eventId, eventType)
+    return 'processed'
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    paymentLogger.webhookFailed(eventId, eventType, message)
+
+    if (isPermanentError(error) || attempts >= WEBHOOK_MAX_ATTEMPTS) {
+      await prisma.webhookEvent.update({
+        where: { id: webhookEventId },
+        data: {
+          status: 'DEAD_LETTER',
+          processingError: message,
+          deadLetteredAt: new Date(),
+          lockedAt: null,
+          lockedBy: null,
+        },
+      })
+
+      paymentLogger.webhookDeadLettered(eventId, eventType, attempts, message)
+      return 'dead_letter'
+    }
+
+    const nextAttemptAt = new Date(Date.now() + getRetryDelayMs(attempts))
+
+    await prisma.webhookEvent.update({
+      where: { id: webhookEventId },
+      data: {
+        status: 'FAILED',
+        processingError: message,
+        nextAttemptAt,
+        lockedAt: null,
+        lockedBy: null,
+      },
+    })
+
+    paymentLogger.webhookRetryScheduled(eventId, eventType, attempts, nextAttemptAt)
+    return 'failed'
+  }
+}
+
+/**
+ * Atomically move a due event into PROCESSING and bump its attempt count
+ */
+async function claimWebhookEvent(webhookEventId: string, workerId: string) {
+  const now = new Date()
+
+  const { count } = await prisma.webhookEvent.updateMany({
+    where: {
+      id: webhookEventId,
+      OR: [
+        { status: { in: ['PENDING', 'FAILED'] }, nextAttemptAt: { lte: now } },
+        {
+          status: 'PROCESSING',
+          lockedAt: { lt: new Date(now.getTime() - WEBHOOK_LOCK_TIMEOUT_MS) },
+        },
+      ],
+    },
+    data: {
+      status: 'PROCESSING',
+      lockedAt: now,
+      lockedBy: workerId,
+      attempts: { increment: 1 },
+    },
+  })
+
+  if (count === 0) {
+    return null
+  }
+
+  return prisma.webhookEvent.findUnique({
+    where: { id: webhookEventId },
+  })
+}
+
+/**
+ * Re-run a stored event through the handlers regardless of its current state
+ * Used by ops to recover after a bug fix without asking Shift4 to resend
+ */
+export async function replayWebhookEvent(webhookEventId: string): Promise<ProcessOutcome> {
+  // Reset into a due PENDING state; an event currently held by a worker is left alone
+  const { count } = await prisma.webhookEvent.updateMany({
+    where: {
+      id: webhookEventId,
+      status: { not: 'PROCESSING' },
+    },
+    data: {
+      status: 'PENDING',
+      processed: false,
+      processingError: null,
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      deadLetteredAt: null,
+    },
+  })
+
+  if (count === 0) {
+    return 'skipped'
+  }
+
+  logger.info({ webhookEventId }, 'Replaying webhook event')
+
+  return processWebhookEvent(webhookEventId, `replay_${nanoid(8)}`)
+}
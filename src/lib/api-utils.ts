@@ -2,9 +2,14 @@
  * API utility functions
  */
 
+import crypto from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import type { IdempotencyKey } from '@prisma/client'
 import { nanoid } from 'nanoid'
-import { PaymentError } from '@/payments/errors'
+import { prisma } from '@/lib/db'
+import { PaymentError, IdempotencyError } from '@/payments/errors'
+import { logger } from '@/payments/logger'
 
 export interface ApiError {
   code: string
@@ -19,6 +24,7 @@ export function errorResponse(error: unknown, status: number = 500): NextRespons
         error: {
           code: error.code,
           message: error.message,
+          ...(error.details && { details: error.details }),
         },
       },
       { status: error.statusCode }
@@ -64,6 +70,157 @@ export function generateIdempotencyKey(prefix: string = 'idem'): string {
   return `${prefix}_${nanoid(24)}`
 }
 
+// ==================== Idempotency ====================
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key'
+
+const IDEMPOTENCY_KEY_TTL_MS =
+  parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10) * 60 * 60 * 1000
+
+// How long a key stays claimed while its request runs; after that a retry can take it over
+const IDEMPOTENCY_LEASE_MS = 5 * 60 * 1000
+
+/**
+ * Use the client's Idempotency-Key (if sent) for persisted records, so the
+ * same key follows the request through to Shift4; otherwise generate one
+ */
+export function getIdempotencyKey(req: NextRequest, prefix: string = 'idem'): string {
+  const clientKey = req.headers.get(IDEMPOTENCY_KEY_HEADER)
+  return clientKey ? `${prefix}_${clientKey}` : generateIdempotencyKey(prefix)
+}
+
+type RouteHandler<C> = (req: NextRequest, context: C) => Promise<Response>
+
+/**
+ * Wrap a route handler with Idempotency-Key support backed by the IdempotencyKey table
+ *
+ * - No header: the handler runs as normal
+ * - New key: the handler runs and its response is stored
+ * - Same key and body: the stored response is returned without running the handler
+ * - Same key, different body or endpoint (or still in flight): IdempotencyError (409)
+ *
+ * 5xx responses and transient conflicts (409, e.g. TERMINAL_BUSY, and 429) are
+ * not stored, so the client can retry with the same key. The same goes for a
+ * response that can't be stored (not JSON, or the write fails). A key is only
+ * leased while its request runs, so one left behind by a crashed process is
+ * taken over by a retry once the lease runs out.
+ */
+export function withIdempotency<C = any>(handler: RouteHandler<C>): RouteHandler<C> {
+  return async (req, context) => {
+    const key = req.headers.get(IDEMPOTENCY_KEY_HEADER)
+
+    if (!key) {
+      return handler(req, context)
+    }
+
+    try {
+      const endpoint = `${req.method} ${req.nextUrl.pathname}`
+      const requestHash = crypto
+        .createHash('sha256')
+        .update(await req.clone().text())
+        .digest('hex')
+
+      const stored = await claimIdempotencyKey(key, endpoint, requestHash)
+      if (stored) {
+        logger.info({ key, endpoint }, 'Replaying idempotent response')
+        return replayStoredResponse(stored.responseData, stored.statusCode!)
+      }
+
+      let response: Response
+      try {
+        response = await handler(req, context)
+      } catch (error) {
+        await prisma.idempotencyKey.delete({ where: { key } }).catch(() => undefined)
+        throw error
+      }
+
+      if (response.status >= 500 || response.status === 409 || response.status === 429) {
+        await prisma.idempotencyKey.delete({ where: { key } }).catch(() => undefined)
+        return response
+      }
+
+      try {
+        const responseText = await response.clone().text()
+        await prisma.idempotencyKey.update({
+          where: { key },
+          data: {
+            responseData: responseText ? JSON.parse(responseText) : Prisma.JsonNull,
+            statusCode: response.status,
+            expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS),
+          },
+        })
+      } catch (error) {
+        logger.warn({ error, key, endpoint }, 'Failed to store idempotent response')
+        await prisma.idempotencyKey.delete({ where: { key } }).catch(() => undefined)
+      }
+
+      return response
+    } catch (error) {
+      return errorResponse(error)
+    }
+  }
+}
+
+/**
+ * Reserve an idempotency key
+ * Returns the stored row if the request was already completed, null if the
+ * caller now owns the key and should run the handler
+ */
+async function claimIdempotencyKey(
+  key: string,
+  endpoint: string,
+  requestHash: string
+): Promise<IdempotencyKey | null> {
+  const expiresAt = new Date(Date.now() + IDEMPOTENCY_LEASE_MS)
+
+  try {
+    await prisma.idempotencyKey.create({
+      data: { key, endpoint, requestHash, expiresAt },
+    })
+    return null
+  } catch (error) {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== 'P2002'
+    ) {
+      throw error
+    }
+  }
+
+  const existing = await prisma.idempotencyKey.findUnique({ where: { key } })
+
+  // Expired, or its lease ran out (or removed in the meantime): start over.
+  // Matching expiresAt means only one retry takes over a stale row.
+  if (!existing || existing.expiresAt < new Date()) {
+    if (existing) {
+      await prisma.idempotencyKey.deleteMany({ where: { key, expiresAt: existing.expiresAt } })
+    }
+    return claimIdempotencyKey(key, endpoint, requestHash)
+  }
+
+  if (existing.endpoint !== endpoint || existing.requestHash !== requestHash) {
+    throw new IdempotencyError(
+      'Idempotency-Key has already been used with a different request'
+    )
+  }
+
+  if (existing.statusCode === null) {
+    throw new IdempotencyError('A request with this Idempotency-Key is still in progress')
+  }
+
+  return existing
+}
+
+function replayStoredResponse(responseData: Prisma.JsonValue, statusCode: number): Response {
+  const headers = { 'Idempotent-Replayed': 'true' }
+
+  if (responseData === null) {
+    return new Response(null, { status: statusCode, headers })
+  }
+
+  return NextResponse.json(responseData, { status: statusCode, headers })
+}
+
 export function generateOrderNumber(): string {
   const date = new Date()
   const year = date.getFullYear()
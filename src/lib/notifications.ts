@@ -0,0 +1,79 @@
+/**
+ * Outbound notifications
+ * Customer-facing events POSTed to our messaging service, which emails the customer
+ *
+ * Each notification is a JSON body `{ id, type, created, customer, data }`
+ * sent to NOTIFICATION_WEBHOOK_URL. With NOTIFICATION_WEBHOOK_SECRET set it is
+ * signed in the same `t=...,v1=...` format Shift4 uses for its webhooks, in
+ * the `x-notification-signature` header. Without a URL, notifications are
+ * only logged.
+ */
+
+import axios from 'axios'
+import crypto from 'crypto'
+import { prisma } from '@/lib/db'
+import { buildWebhookSignatureHeader } from '@/payments/webhook-signature'
+import { logger } from '@/payments/logger'
+
+export const NOTIFICATION_SIGNATURE_HEADER = 'x-notification-signature'
+
+export type NotificationType =
+  | 'payment_method.expiring_soon'
+  | 'payment_method.expired'
+  | 'subscription.payment_failed'
+
+export interface Notification {
+  id: string
+  type: NotificationType
+  created: string
+  customer: {
+    id: string
+    email: string
+    name: string | null
+  }
+  data: Record<string, unknown>
+}
+
+/**
+ * Send a notification about one of a customer's records
+ * Throws if the messaging service does not accept it, so callers can retry
+ */
+export async function notifyCustomer(
+  type: NotificationType,
+  customerId: string,
+  data: Record<string, unknown>
+): Promise<Notification> {
+  const customer = await prisma.customer.findUniqueOrThrow({
+    where: { id: customerId },
+    include: { user: true },
+  })
+
+  const notification: Notification = {
+    id: `ntf_${crypto.randomUUID()}`,
+    type,
+    created: new Date().toISOString(),
+    customer: { id: customer.id, email: customer.user.email, name: customer.user.name },
+    data,
+  }
+
+  const url = process.env.NOTIFICATION_WEBHOOK_URL
+  if (!url) {
+    logger.info({ notificationId: notification.id, type, customerId }, 'Notification (not sent, no URL)')
+    return notification
+  }
+
+  const body = JSON.stringify(notification)
+  const secret = process.env.NOTIFICATION_WEBHOOK_SECRET
+
+  await axios.post(url, body, {
+    headers: {
+      'Content-Type': 'application/json',
+      ...(secret && { [NOTIFICATION_SIGNATURE_HEADER]: buildWebhookSignatureHeader(body, secret) }),
+    },
+    timeout: 10000,
+  })
+
+  logger.info({ notificationId: notification.id, type, customerId }, 'Notification sent')
+
+  return notification
+}
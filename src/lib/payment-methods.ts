@@ -0,0 +1,285 @@
+/**
+ * Payment methods
+ * Cards kept on file with Shift4, several per customer
+ *
+ * Shift4 tokens are single use, so a card is attached to the Shift4 customer
+ * first and charges then use the saved card ID. Exactly one card per customer
+ * is the default; it is mirrored on the Customer row.
+ *
+ * Cards saved before wallets existed live only on the Customer row; they are
+ * imported as PaymentMethods the first time the customer's cards are used.
+ */
+
+import { Prisma } from '@prisma/client'
+import type { Customer, PaymentMethod, User } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { PaymentError } from '@/payments'
+import type { CardDetails, OnlinePaymentAdapter } from '@/payments'
+import { logger, paymentLogger } from '@/payments/logger'
+
+interface AddPaymentMethodOptions {
+  label?: string
+  /** The customer's first card is always the default */
+  setDefault?: boolean
+}
+
+/**
+ * Shift4 customer ID, creating the Shift4 customer on first use
+ */
+export async function getOrCreateShift4Customer(
+  shift4: OnlinePaymentAdapter,
+  customer: Customer & { user: User }
+): Promise<string> {
+  if (customer.shift4CustomerId) {
+    return customer.shift4CustomerId
+  }
+
+  const { customerId: shift4CustomerId } = await shift4.createCustomer({
+    email: customer.user.email,
+    name: customer.user.name ?? undefined,
+    phone: customer.user.phone ?? undefined,
+    metadata: { customerId: customer.id },
+  })
+
+  // A concurrent checkout may have linked one first; keep that one
+  const { count } = await prisma.customer.updateMany({
+    where: { id: customer.id, shift4CustomerId: null },
+    data: { shift4CustomerId },
+  })
+
+  if (count === 0) {
+    const current = await prisma.customer.findUniqueOrThrow({ where: { id: customer.id } })
+
+    logger.warn(
+      { customerId: customer.id, unusedShift4CustomerId: shift4CustomerId },
+      'Shift4 customer already linked; discarding duplicate'
+    )
+
+    return current.shift4CustomerId!
+  }
+
+  return shift4CustomerId
+}
+
+/**
+ * Save a card token to the customer in Shift4 and record it
+ */
+export async function addPaymentMethod(
+  shift4: OnlinePaymentAdapter,
+  customer: Customer & { user: User },
+  token: string,
+  options: AddPaymentMethodOptions = {}
+): Promise<PaymentMethod> {
+  const shift4CustomerId = await getOrCreateShift4Customer(shift4, customer)
+
+  // Keep a card saved before wallets existed before anything replaces the mirror
+  await importLegacyCard(customer.id)
+
+  const saved = await shift4.savePaymentMethod({ customerId: shift4CustomerId, token })
+
+  const paymentMethod = await prisma.paymentMethod.create({
+    data: {
+      customerId: customer.id,
+      shift4CardId: saved.cardId,
+      label: options.label,
+      cardBrand: saved.card.brand,
+      cardLast4: saved.card.last4,
+      cardExpMonth: saved.card.expMonth,
+      cardExpYear: saved.card.expYear,
+      funding: saved.card.funding,
+    },
+  })
+
+  paymentLogger.paymentMethodSaved(customer.id, saved.card.brand, saved.card.last4)
+
+  const setDefault =
+    options.setDefault ||
+    (await prisma.paymentMethod.count({ where: { customerId: customer.id } })) === 1
+
+  return setDefault ? setDefaultPaymentMethod(paymentMethod) : paymentMethod
+}
+
+/**
+ * Make a saved card the customer's default
+ */
+export async function setDefaultPaymentMethod(
+  paymentMethod: PaymentMethod
+): Promise<PaymentMethod> {
+  return prisma.$transaction(async (tx) => {
+    await tx.paymentMethod.updateMany({
+      where: { customerId: paymentMethod.customerId, isDefault: true },
+      data: { isDefault: false },
+    })
+
+    const updated = await tx.paymentMethod.update({
+      where: { id: paymentMethod.id },
+      data: { isDefault: true },
+    })
+
+    await mirrorDefaultCard(tx, paymentMethod.customerId, updated)
+
+    return updated
+  })
+}
+
+/**
+ * Store card details refreshed from Shift4 (e.g. a reissued card's expiry)
+ */
+export async function updatePaymentMethodCard(
+  paymentMethod: PaymentMethod,
+  card: CardDetails
+): Promise<PaymentMethod> {
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.paymentMethod.update({
+      where: { id: paymentMethod.id },
+      data: {
+        cardBrand: card.brand,
+        cardLast4: card.last4,
+        cardExpMonth: card.expMonth,
+        cardExpYear: card.expYear,
+        funding: card.funding ?? paymentMethod.funding,
+      },
+    })
+
+    if (updated.isDefault) {
+      await mirrorDefaultCard(tx, updated.customerId, updated)
+    }
+
+    return updated
+  })
+}
+
+/**
+ * Delete a saved card in Shift4 and locally
+ *
+ * If it was the default, the most recently added remaining card takes over.
+ */
+export async function deletePaymentMethod(
+  shift4: OnlinePaymentAdapter,
+  paymentMethod: PaymentMethod
+): Promise<void> {
+  const customer = await prisma.customer.findUniqueOrThrow({
+    where: { id: paymentMethod.customerId },
+  })
+
+  if (customer.shift4CustomerId) {
+    try {
+      await shift4.deletePaymentMethod({
+        customerId: customer.shift4CustomerId,
+        cardId: paymentMethod.shift4CardId,
+      })
+    } catch (error) {
+      // Already gone in Shift4; finish removing it here
+      if (!(error instanceof PaymentError && error.statusCode === 404)) {
+        throw error
+      }
+    }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.paymentMethod.delete({ where: { id: paymentMethod.id } })
+
+    if (!paymentMethod.isDefault) {
+      return
+    }
+
+    const next = await tx.paymentMethod.findFirst({
+      where: { customerId: paymentMethod.customerId },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    if (next) {
+      await tx.paymentMethod.update({ where: { id: next.id }, data: { isDefault: true } })
+    }
+
+    await mirrorDefaultCard(tx, paymentMethod.customerId, next)
+  })
+
+  logger.info(
+    { customerId: paymentMethod.customerId, paymentMethodId: paymentMethod.id },
+    'Payment method deleted'
+  )
+}
+
+/**
+ * The customer's default card, if one is saved
+ */
+export async function getDefaultPaymentMethod(customerId: string): Promise<PaymentMethod | null> {
+  const paymentMethod = await prisma.paymentMethod.findFirst({
+    where: { customerId, isDefault: true },
+  })
+
+  return paymentMethod ?? importLegacyCard(customerId)
+}
+
+/**
+ * Create the PaymentMethod for a card saved before wallets existed
+ *
+ * Such a card is only on the Customer row (defaultCardToken and card
+ * details). It becomes the default unless the customer already has one.
+ * Returns null when there is nothing to import.
+ */
+export async function importLegacyCard(customerId: string): Promise<PaymentMethod | null> {
+  const customer = await prisma.customer.findUnique({ where: { id: customerId } })
+  const cardId = customer?.defaultCardToken
+
+  if (!customer || !cardId) {
+    return null
+  }
+
+  if (await prisma.paymentMethod.findUnique({ where: { shift4CardId: cardId } })) {
+    return null
+  }
+
+  const { cardBrand, cardLast4, cardExpMonth, cardExpYear } = customer
+  if (!cardBrand || !cardLast4 || !cardExpMonth || !cardExpYear) {
+    logger.warn({ customerId }, 'Saved card is missing details; not importing it')
+    return null
+  }
+
+  const hasDefault = await prisma.paymentMethod.count({ where: { customerId, isDefault: true } })
+
+  try {
+    const paymentMethod = await prisma.paymentMethod.create({
+      data: {
+        customerId,
+        shift4CardId: cardId,
+        cardBrand,
+        cardLast4,
+        cardExpMonth,
+        cardExpYear,
+        isDefault: hasDefault === 0,
+      },
+    })
+
+    logger.info({ customerId, paymentMethodId: paymentMethod.id }, 'Imported saved card')
+
+    return paymentMethod
+  } catch (error) {
+    // Imported by a concurrent request
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return prisma.paymentMethod.findUnique({ where: { shift4CardId: cardId } })
+    }
+    throw error
+  }
+}
+
+/**
+ * Copy the default card onto the Customer row (or clear it)
+ */
+async function mirrorDefaultCard(
+  tx: Prisma.TransactionClient,
+  customerId: string,
+  paymentMethod: PaymentMethod | null
+): Promise<void> {
+  await tx.customer.update({
+    where: { id: customerId },
+    data: {
+      defaultCardToken: paymentMethod?.shift4CardId ?? null,
+      cardBrand: paymentMethod?.cardBrand ?? null,
+      cardLast4: paymentMethod?.cardLast4 ?? null,
+      cardExpMonth: paymentMethod?.cardExpMonth ?? null,
+      cardExpYear: paymentMethod?.cardExpYear ?? null,
+    },
+  })
+}
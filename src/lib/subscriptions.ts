@@ -0,0 +1,610 @@
+/**
+ * Subscriptions
+ * Recurring billing of a plan against the customer's saved card
+ *
+ * Each billing period gets an Order charged through Shift4 with the saved
+ * card (methodType SAVED_CARD). A failed renewal leaves the order pending and
+ * the subscription PAST_DUE; the renewal job retries it on the dunning
+ * schedule and cancels the subscription once retries run out.
+ */
+
+import type {
+  Customer,
+  Order,
+  PaymentMethod,
+  Plan,
+  Subscription,
+} from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { generateOrderNumber } from '@/lib/api-utils'
+import { notifyCustomer } from '@/lib/notifications'
+import { getDefaultPaymentMethod } from '@/lib/payment-methods'
+import {
+  addInterval,
+  calculateProration,
+  CardError,
+  createShift4Adapter,
+  getNextRetryAt,
+  InvalidRequestError,
+} from '@/payments'
+import type { Currency, OnlinePaymentAdapter } from '@/payments'
+import { logger, paymentLogger } from '@/payments/logger'
+
+export type BillableSubscription = Subscription & {
+  plan: Plan
+  customer: Customer
+  paymentMethod: PaymentMethod | null
+}
+
+export type RenewalOutcome = 'renewed' | 'past_due' | 'cancelled' | 'skipped'
+
+/** A renewal locked for longer than this is assumed abandoned (e.g. the worker died) */
+const RENEWAL_LOCK_TIMEOUT_MS = 10 * 60 * 1000
+
+interface CancelOptions {
+  atPeriodEnd?: boolean // Default true; past-due subscriptions always cancel now
+  reason?: string
+}
+
+type OrderLine = {
+  sku: string
+  name: string
+  quantity: number
+  price: number
+}
+
+interface ChargeOutcome {
+  succeeded: boolean
+  failureCode?: string
+  failureMessage?: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Start a subscription, charging the first period unless the plan has a trial
+ *
+ * If the first charge fails the subscription is cancelled straight away and
+ * the decline is thrown as a CardError.
+ */
+export async function createSubscription(
+  customer: Customer,
+  plan: Plan,
+  paymentMethod: PaymentMethod | null,
+  now: Date = new Date()
+): Promise<BillableSubscription> {
+  if (!paymentMethod && !(await getDefaultPaymentMethod(customer.id))) {
+    throw new InvalidRequestError('Customer has no saved card to bill')
+  }
+
+  const trialEndsAt = plan.trialDays > 0 ? new Date(now.getTime() + plan.trialDays * DAY_MS) : null
+  const billingCycleAnchor = trialEndsAt ?? now
+
+  const subscription = await prisma.subscription.create({
+    data: {
+      customerId: customer.id,
+      planId: plan.id,
+      paymentMethodId: paymentMethod?.id,
+      status: trialEndsAt ? 'TRIALING' : 'ACTIVE',
+      billingCycleAnchor,
+      currentPeriodStart: now,
+      currentPeriodEnd: trialEndsAt ?? addInterval(now, plan.interval, plan.intervalCount),
+      trialEndsAt,
+    },
+    include: { plan: true, customer: true, paymentMethod: true },
+  })
+
+  logger.info(
+    { subscriptionId: subscription.id, planId: plan.id, status: subscription.status },
+    'Subscription created'
+  )
+
+  if (trialEndsAt) {
+    return subscription
+  }
+
+  const order = await createSubscriptionOrder(subscription, plan.amount, 0, [
+    periodLine(plan, subscription.currentPeriodStart, subscription.currentPeriodEnd),
+  ])
+
+  try {
+    await chargeNow(subscription, order)
+  } catch (error) {
+    const failure =
+      error instanceof CardError
+        ? { succeeded: false, failureCode: error.declineCode, failureMessage: error.message }
+        : undefined
+
+    await closeSubscription(subscription, 'initial_payment_failed', now, failure)
+    throw error
+  }
+
+  return subscription
+}
+
+/**
+ * Bill the period starting at `currentPeriodEnd` (or retry a failed renewal)
+ *
+ * Proration credit is used before charging the card. On success the
+ * subscription moves into the new period; on failure it goes past due or,
+ * with retries exhausted, is cancelled.
+ *
+ * The row is claimed first, so two workers can't bill the same period; a
+ * subscription that is already being renewed, or has changed since it was
+ * read, is skipped.
+ */
+export async function renewSubscription(
+  shift4: OnlinePaymentAdapter,
+  subscription: BillableSubscription,
+  now: Date = new Date()
+): Promise<RenewalOutcome> {
+  const lockedAt = await claimRenewal(subscription)
+  if (!lockedAt) {
+    return 'skipped'
+  }
+
+  try {
+    return await billRenewal(shift4, subscription, now)
+  } finally {
+    await prisma.subscription.updateMany({
+      where: { id: subscription.id, renewalLockedAt: lockedAt },
+      data: { renewalLockedAt: null },
+    })
+  }
+}
+
+/**
+ * Lock the subscription for renewal if it is still as it was read
+ * Returns the lock time, or null if another worker holds it or it changed
+ */
+async function claimRenewal(subscription: Subscription): Promise<Date | null> {
+  const lockedAt = new Date()
+
+  const { count } = await prisma.subscription.updateMany({
+    where: {
+      id: subscription.id,
+      status: subscription.status,
+      currentPeriodEnd: subscription.currentPeriodEnd,
+      failedAttempts: subscription.failedAttempts,
+      OR: [
+        { renewalLockedAt: null },
+        { renewalLockedAt: { lt: new Date(lockedAt.getTime() - RENEWAL_LOCK_TIMEOUT_MS) } },
+      ],
+    },
+    data: { renewalLockedAt: lockedAt },
+  })
+
+  return count === 0 ? null : lockedAt
+}
+
+async function billRenewal(
+  shift4: OnlinePaymentAdapter,
+  subscription: BillableSubscription,
+  now: Date
+): Promise<RenewalOutcome> {
+  const { plan } = subscription
+
+  if (subscription.cancelAtPeriodEnd) {
+    await closeSubscription(subscription, subscription.cancellationReason || 'cancelled', now)
+    return 'cancelled'
+  }
+
+  const periodStart = subscription.currentPeriodEnd
+  const periodEnd = addInterval(
+    periodStart,
+    plan.interval,
+    plan.intervalCount,
+    subscription.billingCycleAnchor.getUTCDate()
+  )
+  const creditUsed = Math.min(subscription.creditBalance, plan.amount)
+  const amountDue = plan.amount - creditUsed
+
+  let orderId: string | null = null
+
+  if (amountDue > 0) {
+    // Retries charge the order created by the first attempt
+    const order =
+      (await prisma.order.findFirst({
+        where: { subscriptionId: subscription.id, status: 'PENDING_PAYMENT' },
+        orderBy: { createdAt: 'desc' },
+      })) ??
+      (await createSubscriptionOrder(subscription, plan.amount, creditUsed, [
+        periodLine(plan, periodStart, periodEnd),
+      ]))
+
+    const outcome = await chargeSubscriptionOrder(
+      shift4,
+      subscription,
+      order,
+      subscription.failedAttempts
+    )
+
+    if (!outcome.succeeded) {
+      return handleFailedRenewal(subscription, order, outcome, now)
+    }
+
+    orderId = order.id
+  }
+
+  // Only advance from the period that was billed
+  const { count } = await prisma.subscription.updateMany({
+    where: { id: subscription.id, currentPeriodEnd: periodStart },
+    data: {
+      status: 'ACTIVE',
+      currentPeriodStart: periodStart,
+      currentPeriodEnd: periodEnd,
+      creditBalance: subscription.creditBalance - creditUsed,
+      failedAttempts: 0,
+      nextRetryAt: null,
+      lastFailureCode: null,
+      lastFailureMessage: null,
+    },
+  })
+
+  if (count === 0) {
+    throw new Error(`Subscription ${subscription.id} changed period while renewing`)
+  }
+
+  paymentLogger.subscriptionRenewed(subscription.id, orderId, amountDue)
+
+  return 'renewed'
+}
+
+/**
+ * Move to another plan straight away, prorating the current period
+ *
+ * Unused time on the old plan is credited against the new one and any
+ * balance is charged now. A credit larger than the charge is kept for the
+ * next renewals. Trials switch plan without charging.
+ */
+export async function changeSubscriptionPlan(
+  subscription: BillableSubscription,
+  plan: Plan,
+  now: Date = new Date()
+): Promise<BillableSubscription> {
+  if (plan.id === subscription.planId) {
+    throw new InvalidRequestError('Subscription is already on this plan')
+  }
+
+  if (plan.currency !== subscription.plan.currency) {
+    throw new InvalidRequestError('Plans must be in the same currency')
+  }
+
+  if (subscription.status === 'CANCELLED' || subscription.status === 'PAST_DUE') {
+    throw new InvalidRequestError(
+      `Cannot change plan of a ${subscription.status.toLowerCase()} subscription`
+    )
+  }
+
+  if (subscription.status === 'TRIALING') {
+    return prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { planId: plan.id },
+      include: { plan: true, customer: true, paymentMethod: true },
+    })
+  }
+
+  const proration = calculateProration(
+    subscription.plan,
+    plan,
+    subscription.currentPeriodStart,
+    subscription.currentPeriodEnd,
+    now
+  )
+  const credit = subscription.creditBalance + proration.credit
+  const creditUsed = Math.min(credit, proration.charge)
+  const amountDue = proration.charge - creditUsed
+  const periodEnd = proration.resetPeriod
+    ? addInterval(now, plan.interval, plan.intervalCount)
+    : subscription.currentPeriodEnd
+
+  if (amountDue > 0) {
+    const order = await createSubscriptionOrder(subscription, proration.charge, creditUsed, [
+      { ...periodLine(plan, now, periodEnd), price: proration.charge },
+    ])
+
+    await chargeNow(subscription, order)
+  }
+
+  const updated = await prisma.subscription.update({
+    where: { id: subscription.id },
+    data: {
+      planId: plan.id,
+      creditBalance: credit - creditUsed,
+      ...(proration.resetPeriod && {
+        billingCycleAnchor: now,
+        currentPeriodStart: now,
+        currentPeriodEnd: periodEnd,
+      }),
+    },
+    include: { plan: true, customer: true, paymentMethod: true },
+  })
+
+  logger.info(
+    {
+      subscriptionId: subscription.id,
+      fromPlanId: subscription.planId,
+      toPlanId: plan.id,
+      ...proration,
+      amountDue,
+    },
+    'Subscription plan changed'
+  )
+
+  return updated
+}
+
+/**
+ * Cancel at the end of the paid period, or now
+ *
+ * Cancelling now does not refund the rest of the period.
+ */
+export async function cancelSubscription(
+  subscription: Subscription,
+  options: CancelOptions = {},
+  now: Date = new Date()
+): Promise<Subscription> {
+  if (subscription.status === 'CANCELLED') {
+    throw new InvalidRequestError('Subscription is already cancelled')
+  }
+
+  const reason = options.reason || 'requested_by_customer'
+
+  if ((options.atPeriodEnd ?? true) && subscription.status !== 'PAST_DUE') {
+    return prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { cancelAtPeriodEnd: true, cancellationReason: reason },
+    })
+  }
+
+  return closeSubscription(subscription, reason, now)
+}
+
+async function handleFailedRenewal(
+  subscription: BillableSubscription,
+  order: Order,
+  outcome: ChargeOutcome,
+  now: Date
+): Promise<RenewalOutcome> {
+  const failedAttempts = subscription.failedAttempts + 1
+  const nextRetryAt = getNextRetryAt(failedAttempts, now)
+
+  paymentLogger.subscriptionPaymentFailed(
+    subscription.id,
+    failedAttempts,
+    nextRetryAt,
+    outcome.failureMessage
+  )
+
+  if (nextRetryAt) {
+    await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        status: 'PAST_DUE',
+        failedAttempts,
+        nextRetryAt,
+        lastFailureCode: outcome.failureCode,
+        lastFailureMessage: outcome.failureMessage,
+      },
+    })
+  } else {
+    await closeSubscription(subscription, 'payment_failed', now, outcome)
+  }
+
+  // Ask the customer to update their card (e.g. it expired)
+  await notifyCustomer('subscription.payment_failed', subscription.customerId, {
+    subscriptionId: subscription.id,
+    planName: subscription.plan.name,
+    orderId: order.id,
+    amount: order.total,
+    currency: order.currency,
+    failureCode: outcome.failureCode,
+    failureMessage: outcome.failureMessage,
+    failedAttempts,
+    nextRetryAt: nextRetryAt?.toISOString() ?? null,
+    cancelled: !nextRetryAt,
+  }).catch((error) => {
+    logger.warn({ error, subscriptionId: subscription.id }, 'Failed to send payment failure notification')
+  })
+
+  return nextRetryAt ? 'past_due' : 'cancelled'
+}
+
+/**
+ * Cancel now, dropping any order still awaiting payment
+ */
+async function closeSubscription(
+  subscription: Subscription,
+  reason: string,
+  now: Date,
+  failure?: ChargeOutcome
+): Promise<Subscription> {
+  const [cancelled] = await prisma.$transaction([
+    prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        status: 'CANCELLED',
+        cancelledAt: now,
+        cancellationReason: reason,
+        nextRetryAt: null,
+        ...(failure && {
+          lastFailureCode: failure.failureCode,
+          lastFailureMessage: failure.failureMessage,
+        }),
+      },
+    }),
+    prisma.order.updateMany({
+      where: { subscriptionId: subscription.id, status: 'PENDING_PAYMENT' },
+      data: { status: 'CANCELLED' },
+    }),
+  ])
+
+  paymentLogger.subscriptionCancelled(subscription.id, reason)
+
+  return cancelled
+}
+
+async function createSubscriptionOrder(
+  subscription: BillableSubscription,
+  subtotal: number,
+  discount: number,
+  items: OrderLine[]
+): Promise<Order> {
+  return prisma.order.create({
+    data: {
+      orderNumber: generateOrderNumber(),
+      userId: subscription.customer.userId,
+      subscriptionId: subscription.id,
+      status: 'PENDING_PAYMENT',
+      subtotal,
+      discount,
+      total: subtotal - discount,
+      currency: subscription.plan.currency,
+      items,
+    },
+  })
+}
+
+/**
+ * Charge an order that must be paid now (first period, plan change)
+ *
+ * Any failure cancels the order so renewals never pick it up; declines are
+ * thrown as a CardError.
+ */
+async function chargeNow(subscription: BillableSubscription, order: Order): Promise<void> {
+  let outcome: ChargeOutcome
+
+  try {
+    outcome = await chargeSubscriptionOrder(createShift4Adapter(), subscription, order, 0)
+  } catch (error) {
+    await prisma.order.update({ where: { id: order.id }, data: { status: 'CANCELLED' } })
+    throw error
+  }
+
+  if (!outcome.succeeded) {
+    await prisma.order.update({ where: { id: order.id }, data: { status: 'CANCELLED' } })
+    throw new CardError(outcome.failureMessage || 'Payment failed', outcome.failureCode)
+  }
+}
+
+/**
+ * Charge an order to the subscription's card and record the Payment
+ *
+ * Declines come back as a failed outcome; other errors (network, rate limit)
+ * are thrown so the job tries again without counting an attempt. An attempt
+ * already recorded (the run failed after the Payment was written) returns
+ * its outcome instead of charging again.
+ */
+async function chargeSubscriptionOrder(
+  shift4: OnlinePaymentAdapter,
+  subscription: BillableSubscription,
+  order: Order,
+  attempt: number
+): Promise<ChargeOutcome> {
+  const card = subscription.paymentMethod ?? (await getDefaultPaymentMethod(subscription.customerId))
+  const shift4CustomerId = subscription.customer.shift4CustomerId
+
+  if (!card || !shift4CustomerId) {
+    return { succeeded: false, failureCode: 'no_payment_method', failureMessage: 'No saved card to bill' }
+  }
+
+  const idempotencyKey = `sub_${order.id}_${attempt}`
+
+  const recorded = await prisma.payment.findUnique({ where: { idempotencyKey } })
+  if (recorded) {
+    if (recorded.status !== 'CAPTURED') {
+      return {
+        succeeded: false,
+        failureCode: recorded.failureCode ?? undefined,
+        failureMessage: recorded.failureMessage ?? undefined,
+      }
+    }
+
+    await prisma.order.update({ where: { id: order.id }, data: { status: 'PAID' } })
+    return { succeeded: true }
+  }
+
+  const payment = {
+    orderId: order.id,
+    customerId: subscription.customerId,
+    paymentMethodId: card.id,
+    shift4CustomerId,
+    currency: order.currency,
+    methodType: 'SAVED_CARD' as const,
+    cardBrand: card.cardBrand,
+    cardLast4: card.cardLast4,
+    cardExpMonth: card.cardExpMonth,
+    cardExpYear: card.cardExpYear,
+    idempotencyKey,
+    metadata: { subscriptionId: subscription.id },
+  }
+
+  try {
+    const charge = await shift4.createCharge({
+      amount: order.total,
+      currency: order.currency as Currency, // Validated when the plan was created
+      token: card.shift4CardId,
+      customerId: shift4CustomerId,
+      description: `${subscription.plan.name} subscription (${order.orderNumber})`,
+      metadata: { orderId: order.id, subscriptionId: subscription.id },
+      idempotencyKey,
+    })
+
+    const succeeded = charge.status === 'succeeded'
+
+    await prisma.$transaction([
+      prisma.payment.create({
+        data: {
+          ...payment,
+          shift4ChargeId: charge.chargeId,
+          amount: charge.amount,
+          status: succeeded ? 'CAPTURED' : 'FAILED',
+          capturedAt: succeeded ? new Date() : null,
+          failureCode: charge.failureCode,
+          failureMessage: charge.failureMessage,
+        },
+      }),
+      ...(succeeded
+        ? [prisma.order.update({ where: { id: order.id }, data: { status: 'PAID' } })]
+        : []),
+    ])
+
+    if (!succeeded) {
+      paymentLogger.chargeFailed(charge.chargeId, charge.failureMessage || 'Unknown', charge.failureCode)
+      return { succeeded, failureCode: charge.failureCode, failureMessage: charge.failureMessage }
+    }
+
+    paymentLogger.chargeCreated(charge.chargeId, charge.amount, charge.currency)
+
+    return { succeeded }
+  } catch (error) {
+    if (!(error instanceof CardError)) {
+      throw error
+    }
+
+    const failureCode = error.declineCode || error.code
+
+    await prisma.payment.create({
+      data: {
+        ...payment,
+        amount: order.total,
+        status: 'FAILED',
+        failureCode,
+        failureMessage: error.message,
+      },
+    })
+
+    return { succeeded: false, failureCode, failureMessage: error.message }
+  }
+}
+
+function periodLine(plan: Plan, start: Date, end: Date): OrderLine {
+  const day = (date: Date) => date.toISOString().slice(0, 10)
+
+  return {
+    sku: plan.id,
+    name: `${plan.name} (${day(start)} to ${day(end)})`,
+    quantity: 1,
+    price: plan.amount,
+  }
+}
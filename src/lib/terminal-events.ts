@@ -0,0 +1,88 @@
+/**
+ * Terminal transaction status events
+ * Pushes status changes to SSE subscribers as they happen
+ *
+ * Events are published by the code that drives the device (pay route, SkyTab
+ * polling, completion and cancel) rather than read back from the database.
+ * The bus is in-process: a stream only sees transactions started by the
+ * instance serving it, like the background payment itself.
+ */
+
+import { EventEmitter } from 'events'
+import type { TerminalTransaction, TerminalTransactionStatus } from '@prisma/client'
+import { isFinalTransactionStatus } from '@/payments'
+
+export type TerminalEventStatus =
+  | 'queued' // Waiting for the terminal lock (live events only)
+  | 'pending'
+  | 'awaiting_card' // On the device, waiting for the customer
+  | 'processing' // Card presented, authorizing
+  | 'cancelling'
+  | 'approved'
+  | 'declined'
+  | 'cancelled'
+  | 'timeout'
+  | 'error'
+
+export interface TerminalStatusEvent {
+  transactionId: string
+  status: TerminalEventStatus
+  approved?: boolean
+  paymentId?: string
+  error?: string
+  timestamp: string
+}
+
+const FINAL_STATUSES: TerminalEventStatus[] = ['approved', 'declined', 'cancelled', 'timeout', 'error']
+
+const emitter = new EventEmitter()
+emitter.setMaxListeners(0) // One listener per open stream
+
+/**
+ * Status of a stored transaction, as reported by the status endpoints
+ */
+export function getTerminalTransactionStatus(
+  transaction: Pick<TerminalTransaction, 'status' | 'cancelRequestedAt' | 'cardPresentedAt'>
+): TerminalEventStatus {
+  if (!isFinalTransactionStatus(transaction.status)) {
+    if (transaction.cancelRequestedAt) return 'cancelling'
+    if (transaction.cardPresentedAt) return 'processing'
+  }
+  return toEventStatus(transaction.status)
+}
+
+export function toEventStatus(status: TerminalTransactionStatus): TerminalEventStatus {
+  return status.toLowerCase() as TerminalEventStatus
+}
+
+export function isFinalTerminalStatus(status: TerminalEventStatus): boolean {
+  return FINAL_STATUSES.includes(status)
+}
+
+export function publishTerminalStatus(
+  transactionId: string,
+  status: TerminalEventStatus,
+  details: Pick<TerminalStatusEvent, 'approved' | 'paymentId' | 'error'> = {}
+): void {
+  const event: TerminalStatusEvent = {
+    transactionId,
+    status,
+    ...details,
+    timestamp: new Date().toISOString(),
+  }
+
+  emitter.emit(transactionId, event)
+}
+
+/**
+ * Listen for one transaction's status changes; returns the unsubscribe function
+ */
+export function subscribeTerminalStatus(
+  transactionId: string,
+  listener: (event: TerminalStatusEvent) => void
+): () => void {
+  emitter.on(transactionId, listener)
+  return () => {
+    emitter.off(transactionId, listener)
+  }
+}
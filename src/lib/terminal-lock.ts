@@ -0,0 +1,123 @@
+/**
+ * Per-terminal transaction lock
+ * Ensures only one customer-facing transaction runs on a device at a time
+ *
+ * The lock lives on the Terminal row and is taken with a conditional update,
+ * so it holds across server instances. It is released when the transaction
+ * completes or is cancelled; a lock whose holder crashed expires after
+ * TERMINAL_LOCK_TIMEOUT_MS and can be taken over.
+ */
+
+import type { Terminal } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { TerminalBusyError } from '@/payments'
+import { logger } from '@/payments/logger'
+
+export const TERMINAL_LOCK_TIMEOUT_MS = parseInt(
+  process.env.TERMINAL_LOCK_TIMEOUT_MS || '180000',
+  10
+)
+export const TERMINAL_QUEUE_TIMEOUT_MS = parseInt(
+  process.env.TERMINAL_QUEUE_TIMEOUT_MS || '120000',
+  10
+)
+const TERMINAL_QUEUE_POLL_MS = 1000
+
+/**
+ * Take the terminal's lock for a transaction
+ * Throws TerminalBusyError (409) with the active transaction ID if it is held
+ */
+export async function acquireTerminalLock(
+  terminalId: string,
+  transactionId: string
+): Promise<void> {
+  const now = new Date()
+
+  const { count } = await prisma.terminal.updateMany({
+    where: {
+      id: terminalId,
+      OR: [
+        { activeTransactionId: null },
+        { activeTransactionId: transactionId },
+        { lockExpiresAt: { lt: now } },
+      ],
+    },
+    data: {
+      activeTransactionId: transactionId,
+      lockedAt: now,
+      lockExpiresAt: new Date(now.getTime() + TERMINAL_LOCK_TIMEOUT_MS),
+    },
+  })
+
+  if (count === 0) {
+    const terminal = await prisma.terminal.findUnique({
+      where: { id: terminalId },
+      select: { activeTransactionId: true },
+    })
+
+    throw new TerminalBusyError(terminalId, terminal?.activeTransactionId ?? undefined)
+  }
+}
+
+/**
+ * Wait for the terminal to become free, then take its lock (queue mode)
+ * Throws TerminalBusyError if it is still held after timeoutMs
+ */
+export async function waitForTerminalLock(
+  terminalId: string,
+  transactionId: string,
+  timeoutMs: number = TERMINAL_QUEUE_TIMEOUT_MS
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+
+  for (;;) {
+    try {
+      await acquireTerminalLock(terminalId, transactionId)
+      return
+    } catch (error) {
+      if (!(error instanceof TerminalBusyError) || Date.now() >= deadline) {
+        throw error
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, TERMINAL_QUEUE_POLL_MS))
+  }
+}
+
+/**
+ * Whether a transaction holds the terminal's (unexpired) lock, i.e. some
+ * server process is still driving it on the device
+ */
+export function holdsTerminalLock(
+  terminal: Pick<Terminal, 'activeTransactionId' | 'lockExpiresAt'>,
+  transactionId: string,
+  now: Date = new Date()
+): boolean {
+  return (
+    terminal.activeTransactionId === transactionId &&
+    !!terminal.lockExpiresAt &&
+    terminal.lockExpiresAt > now
+  )
+}
+
+/**
+ * Release the lock if this transaction still holds it
+ */
+export async function releaseTerminalLock(
+  terminalId: string,
+  transactionId: string
+): Promise<void> {
+  try {
+    await prisma.terminal.updateMany({
+      where: { id: terminalId, activeTransactionId: transactionId },
+      data: {
+        activeTransactionId: null,
+        lockedAt: null,
+        lockExpiresAt: null,
+      },
+    })
+  } catch (error) {
+    // The lock expires on its own; never fail the transaction over it
+    logger.error({ error, terminalId, transactionId }, 'Failed to release terminal lock')
+  }
+}
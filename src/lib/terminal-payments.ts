@@ -0,0 +1,203 @@
+/**
+ * Terminal payment completion
+ * Records what the device reported for a card-present sale or authorization
+ *
+ * The device result arrives in the background, after the pay route has
+ * responded. Every write is conditional on the transaction still being open
+ * and not being cancelled, so a late approval cannot overwrite a cancel; the
+ * cancel route reconciles whatever the device did instead.
+ */
+
+import type { TerminalTransaction } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { publishTerminalStatus, toEventStatus } from '@/lib/terminal-events'
+import { transitionTerminalTransaction } from '@/lib/terminal-transactions'
+import { getErrorStatus, getResultStatus } from '@/payments'
+import type { PaymentResult } from '@/payments'
+import { logger, paymentLogger } from '@/payments/logger'
+
+// In-flight device calls started by this process, keyed by transactionId
+const inFlight = new Map<string, AbortController>()
+
+/**
+ * Register an in-flight transaction; the signal is passed to the adapter
+ */
+export function trackTerminalTransaction(transactionId: string): AbortSignal {
+  const controller = new AbortController()
+  inFlight.set(transactionId, controller)
+  return controller.signal
+}
+
+export function untrackTerminalTransaction(transactionId: string): void {
+  inFlight.delete(transactionId)
+}
+
+export function isTerminalTransactionInFlight(transactionId: string): boolean {
+  return inFlight.has(transactionId)
+}
+
+/**
+ * Stop waiting on the device for a transaction started by this process
+ * Returns false if it was started elsewhere (or has already finished)
+ */
+export function abortTerminalTransaction(transactionId: string): boolean {
+  const controller = inFlight.get(transactionId)
+
+  if (!controller) {
+    return false
+  }
+
+  controller.abort()
+  inFlight.delete(transactionId)
+  return true
+}
+
+interface RecordOptions {
+  ignoreCancel?: boolean // Recording an approval that a cancel could not undo (cancel route, recovery)
+}
+
+/**
+ * Write the device result and, if approved, the Payment
+ * Returns false if the transaction was already completed or is being cancelled
+ */
+export async function recordTerminalResult(
+  transaction: TerminalTransaction,
+  result: PaymentResult,
+  options: RecordOptions = {}
+): Promise<boolean> {
+  const status = getResultStatus(result)
+
+  const recorded = await transitionTerminalTransaction(
+    transaction.transactionId,
+    status,
+    {
+      approved: result.approved,
+      responseCode: result.responseCode,
+      responseMessage: result.responseMessage,
+      authCode: result.authCode,
+      token: result.token,
+      responseData: { ...result },
+      safStatus: result.storedOffline ? 'QUEUED' : undefined,
+    },
+    options.ignoreCancel ? {} : { cancelRequestedAt: null }
+  )
+
+  if (!recorded) {
+    logger.info(
+      { transactionId: transaction.transactionId, approved: result.approved },
+      'Ignoring late terminal result'
+    )
+    return false
+  }
+
+  if (result.storedOffline) {
+    paymentLogger.terminalPaymentStoredOffline(
+      transaction.terminalId,
+      transaction.transactionId,
+      result.totalAmount
+    )
+  }
+
+  if (!result.approved) {
+    paymentLogger.terminalPaymentCompleted(transaction.terminalId, transaction.transactionId, false)
+    publishTerminalStatus(transaction.transactionId, toEventStatus(status), {
+      approved: false,
+      error: result.responseMessage || result.error,
+    })
+    return true
+  }
+
+  const requestData = (transaction.requestData as Record<string, any> | null) || {}
+  const capture = transaction.requestType === 'payment'
+  const completedAt = new Date()
+
+  // Create payment record
+  const payment = await prisma.payment.create({
+    data: {
+      orderId: requestData.orderId,
+      shift4ChargeId: result.token, // Use token as charge reference
+      amount: result.totalAmount,
+      currency: transaction.currency || 'usd',
+      status: capture ? 'CAPTURED' : 'AUTHORIZED',
+      methodType: 'CARD_TERMINAL',
+      cardBrand: result.cardBrand,
+      cardLast4: result.cardLast4,
+      terminalId: transaction.terminalId,
+      authCode: result.authCode,
+      entryMode: result.entryMode,
+      emvData: result.emvData,
+      idempotencyKey: requestData.idempotencyKey || `term_${transaction.transactionId}`,
+      capturedAt: capture ? completedAt : null,
+      ...(!capture && {
+        authorizedAmount: result.totalAmount,
+        authorizedAt: completedAt,
+      }),
+      metadata: {
+        transactionId: transaction.transactionId,
+        tipAmount: result.tipAmount,
+        storedOffline: result.storedOffline,
+      },
+    },
+  })
+
+  // Update order (an open authorization is paid on capture)
+  if (capture) {
+    await prisma.order.update({
+      where: { id: requestData.orderId },
+      data: { status: 'PAID' },
+    })
+  }
+
+  paymentLogger.terminalPaymentCompleted(transaction.terminalId, transaction.transactionId, true)
+  publishTerminalStatus(transaction.transactionId, 'approved', {
+    approved: true,
+    paymentId: payment.id,
+  })
+
+  return true
+}
+
+/**
+ * Record a device call that threw (offline, timeout, aborted)
+ */
+export async function recordTerminalFailure(
+  transaction: TerminalTransaction,
+  error: unknown
+): Promise<void> {
+  const status = getErrorStatus(error)
+  const message = error instanceof Error ? error.message : 'Unknown error'
+
+  const recorded = await transitionTerminalTransaction(
+    transaction.transactionId,
+    status,
+    { approved: false, responseMessage: message },
+    { cancelRequestedAt: null }
+  )
+
+  if (recorded) {
+    publishTerminalStatus(transaction.transactionId, toEventStatus(status), {
+      approved: false,
+      error: message,
+    })
+  }
+}
+
+/**
+ * Close a transaction as cancelled
+ */
+export async function recordTerminalCancelled(
+  transaction: TerminalTransaction,
+  message: string = 'Cancelled'
+): Promise<void> {
+  const recorded = await transitionTerminalTransaction(transaction.transactionId, 'CANCELLED', {
+    approved: false,
+    responseCode: 'CA',
+    responseMessage: message,
+    cancelledAt: new Date(),
+  })
+
+  if (recorded) {
+    paymentLogger.terminalPaymentCancelled(transaction.terminalId, transaction.transactionId, message)
+    publishTerminalStatus(transaction.transactionId, 'cancelled', { approved: false })
+  }
+}
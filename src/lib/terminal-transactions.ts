@@ -0,0 +1,69 @@
+/**
+ * Terminal transaction state changes
+ * Applies lifecycle transitions to TerminalTransaction rows
+ *
+ * Each transition is a compare-and-set on the current status, so concurrent
+ * writers (background payment, cancel route) cannot move a transaction
+ * backwards or out of a final status. Timestamps and phase durations are
+ * written with the transition that ends the phase.
+ */
+
+import type { Prisma, TerminalTransactionStatus } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { canTransition, getPhaseDurations, isFinalTransactionStatus } from '@/payments'
+import { logger } from '@/payments/logger'
+
+/**
+ * Move a transaction to a new status
+ * Returns false if the transition is not allowed from its current status or
+ * `where` no longer matches (e.g. a cancel was requested)
+ */
+export async function transitionTerminalTransaction(
+  transactionId: string,
+  to: TerminalTransactionStatus,
+  data: Prisma.TerminalTransactionUpdateManyMutationInput = {},
+  where: Prisma.TerminalTransactionWhereInput = {}
+): Promise<boolean> {
+  const current = await prisma.terminalTransaction.findUnique({
+    where: { transactionId },
+  })
+
+  if (!current) {
+    return false
+  }
+
+  if (!canTransition(current.status, to)) {
+    logger.warn(
+      { transactionId, from: current.status, to },
+      'Rejected terminal transaction transition'
+    )
+    return false
+  }
+
+  const now = new Date()
+
+  const { count } = await prisma.terminalTransaction.updateMany({
+    where: { ...where, transactionId, status: current.status },
+    data: {
+      ...data,
+      status: to,
+      ...(to === 'AWAITING_CARD' && { awaitingCardAt: now }),
+      ...(isFinalTransactionStatus(to) && {
+        completedAt: now,
+        ...getPhaseDurations(current, now),
+      }),
+    },
+  })
+
+  return count > 0
+}
+
+/**
+ * Record that the customer presented a card (ends the customer phase)
+ */
+export async function markCardPresented(transactionId: string): Promise<void> {
+  await prisma.terminalTransaction.updateMany({
+    where: { transactionId, status: 'AWAITING_CARD', cardPresentedAt: null },
+    data: { cardPresentedAt: new Date() },
+  })
+}
@@ -0,0 +1,98 @@
+/**
+ * Terminal capability discovery
+ * Merges what a device reports about itself with what we have stored
+ *
+ * The device is the source of truth when it answers; its capabilities are
+ * written back to the Terminal row so they survive the device going offline.
+ */
+
+import type { Terminal } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { createTerminalClient } from '@/payments'
+import { logger } from '@/payments/logger'
+
+export interface TerminalCapabilities {
+  terminalId: string
+  type: string
+  online: boolean
+  source: 'device' | 'stored' // Where the capability flags came from
+
+  model?: string
+  serialNumber?: string
+  firmwareVersion?: string
+
+  supportsEMV: boolean
+  supportsNFC: boolean
+  supportsTipping: boolean
+  supportsSignature?: boolean
+
+  safEnabled?: boolean
+  safTransactionCount?: number
+
+  checkedAt: Date
+}
+
+export async function discoverTerminalCapabilities(
+  terminal: Terminal
+): Promise<TerminalCapabilities> {
+  const client = createTerminalClient(terminal)
+  const info = await client.getTerminalInfo()
+  const checkedAt = new Date()
+
+  // Adapters return defaults when the device does not answer; keep stored values
+  if (!info.online) {
+    return {
+      terminalId: terminal.id,
+      type: terminal.type,
+      online: false,
+      source: 'stored',
+      supportsEMV: terminal.supportsEMV,
+      supportsNFC: terminal.supportsNFC,
+      supportsTipping: terminal.supportsTipping,
+      checkedAt,
+    }
+  }
+
+  if (
+    info.supportsEMV !== terminal.supportsEMV ||
+    info.supportsNFC !== terminal.supportsNFC ||
+    info.supportsTipping !== terminal.supportsTipping
+  ) {
+    logger.info(
+      {
+        terminalId: terminal.id,
+        supportsEMV: info.supportsEMV,
+        supportsNFC: info.supportsNFC,
+        supportsTipping: info.supportsTipping,
+      },
+      'Terminal capabilities changed'
+    )
+  }
+
+  await prisma.terminal.update({
+    where: { id: terminal.id },
+    data: {
+      supportsEMV: info.supportsEMV,
+      supportsNFC: info.supportsNFC,
+      supportsTipping: info.supportsTipping,
+      lastPingAt: checkedAt,
+    },
+  })
+
+  return {
+    terminalId: terminal.id,
+    type: terminal.type,
+    online: true,
+    source: 'device',
+    model: info.model,
+    serialNumber: info.serialNumber,
+    firmwareVersion: info.firmwareVersion,
+    supportsEMV: info.supportsEMV,
+    supportsNFC: info.supportsNFC,
+    supportsTipping: info.supportsTipping,
+    supportsSignature: info.supportsSignature,
+    safEnabled: info.safEnabled,
+    safTransactionCount: info.safTransactionCount,
+    checkedAt,
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Shift4 webhook event handling
+ * Verifies events against the Shift4 API and applies them to our records
+ *
+ * Shared by the webhook receiver, the webhook queue worker and replay tooling.
+ */
+
+import { prisma } from '@/lib/db'
+import { createShift4Adapter, PaymentError, InvalidRequestError } from '@/payments'
+import type { WebhookEvent } from '@/payments'
+import { logger } from '@/payments/logger'
+
+/**
+ * Fetch the authoritative event from Shift4 and apply it
+ * The stored POST body is never trusted, so forged or tampered payloads
+ * are never acted on
+ */
+export async function handleWebhookEvent(
+  eventId: string,
+  eventType: string
+): Promise<WebhookEvent> {
+  const event = await fetchVerifiedEvent(eventId, eventType)
+  await dispatchWebhookEvent(event)
+  return event
+}
+
+/**
+ * Route a verified event to its handler
+ */
+export async function dispatchWebhookEvent(event: WebhookEvent): Promise<void> {
+  // Process based on event type
+  switch (event.type) {
+    case 'charge.succeeded':
+      await handleChargeSucceeded(event)
+      break
+
+    case 'charge.failed':
+      await handleChargeFailed(event)
+      break
+
+    case 'charge.captured':
+      await handleChargeCaptured(event)
+      break
+
+    case 'charge.refunded':
+      await handleChargeRefunded(event)
+      break
+
+    case 'charge.dispute.created':
+      await handleDisputeCreated(event)
+      break
+
+    case 'charge.dispute.closed':
+      await handleDisputeClosed(event)
+      break
+
+    case 'refund.succeeded':
+      await handleRefundSucceeded(event)
+      break
+
+    case 'refund.failed':
+      await handleRefundFailed(event)
+      break
+
+    case 'payout.created':
+    case 'payout.paid':
+      await handlePayout(event)
+      break
+
+    default:
+      logger.info({ eventType: event.type }, 'Unhandled webhook event type')
+  }
+}
+
+/**
+ * Fetch an event from Shift4 and check it matches what was delivered
+ * Events Shift4 does not recognise are rejected
+ */
+export async function fetchVerifiedEvent(eventId: string, eventType: string): Promise<WebhookEvent> {
+  const shift4 = createShift4Adapter()
+
+  let event: WebhookEvent
+  try {
+    event = await shift4.getEvent(eventId)
+  } catch (error) {
+    if (error instanceof PaymentError && error.statusCode === 404) {
+      throw new InvalidRequestError(`Event ${eventId} is not recognised by Shift4`)
+    }
+    throw error
+  }
+
+  if (event.type !== eventType) {
+    throw new InvalidRequestError(
+      `Event ${eventId} type mismatch: received ${eventType}, Shift4 reports ${event.type}`
+    )
+  }
+
+  return event
+}
+
+// ==================== Event Handlers ====================
+
+async function handleChargeSucceeded(data: any) {
+  const chargeId = data.data?.id || data.id
+
+  // Update payment status; an auth-only charge stays AUTHORIZED until captured
+  await prisma.payment.updateMany({
+    where: { shift4ChargeId: chargeId },
+    data: { status: data.data?.captured === false ? 'AUTHORIZED' : 'CAPTURED' },
+  })
+
+  logger.info({ chargeId }, 'Charge succeeded')
+}
+
+async function handleChargeFailed(data: any) {
+  const chargeId = data.data?.id || data.id
+
+  await prisma.payment.updateMany({
+    where: { shift4ChargeId: chargeId },
+    data: { status: 'FAILED' },
+  })
+
+  logger.info({ chargeId }, 'Charge failed')
+}
+
+async function handleChargeCaptured(data: any) {
+  const chargeId = data.data?.id || data.id
+
+  await prisma.payment.updateMany({
+    where: { shift4ChargeId: chargeId },
+    data: {
+      status: 'CAPTURED',
+      capturedAt: new Date(),
+    },
+  })
+
+  logger.info({ chargeId }, 'Charge captured')
+}
+
+async function handleChargeRefunded(data: any) {
+  const chargeId = data.data?.id || data.id
+  const refundId = data.data?.refunds?.[0]?.id
+
+  // Update payment
+  await prisma.payment.updateMany({
+    where: { shift4ChargeId: chargeId },
+    data: { status: 'REFUNDED' },
+  })
+
+  // Update refund if exists
+  if (refundId) {
+    await prisma.refund.updateMany({
+      where: { shift4RefundId: refundId },
+      data: {
+        status: 'SUCCEEDED',
+        processedAt: new Date(),
+      },
+    })
+  }
+
+  logger.info({ chargeId, refundId }, 'Charge refunded')
+}
+
+async function handleRefundSucceeded(data: any) {
+  const refundId = data.data?.id || data.id
+
+  await prisma.refund.updateMany({
+    where: { shift4RefundId: refundId },
+    data: {
+      status: 'SUCCEEDED',
+      processedAt: new Date(),
+    },
+  })
+
+  logger.info({ refundId }, 'Refund succeeded')
+}
+
+async function handleRefundFailed(data: any) {
+  const refundId = data.data?.id || data.id
+
+  await prisma.refund.updateMany({
+    where: { shift4RefundId: refundId },
+    data: {
+      status: 'FAILED',
+      failureMessage: data.data?.failureMessage,
+    },
+  })
+
+  logger.info({ refundId }, 'Refund failed')
+}
+
+async function handleDisputeCreated(data: any) {
+  const disputeId = data.data?.id || data.id
+  const chargeId = data.data?.chargeId
+
+  // Find payment
+  const payment = await prisma.payment.findFirst({
+    where: { shift4ChargeId: chargeId },
+  })
+
+  if (!payment) {
+    logger.warn({ chargeId }, 'Payment not found for dispute')
+    return
+  }
+
+  // Create dispute record
+  await prisma.dispute.create({
+    data: {
+      orderId: payment.orderId,
+      shift4DisputeId: disputeId,
+      shift4ChargeId: chargeId,
+      amount: data.data?.amount || payment.amount,
+      currency: data.data?.currency || payment.currency,
+      status: 'NEEDS_RESPONSE',
+      reason: data.data?.reason || 'unknown',
+      evidenceDeadline: data.data?.evidenceDeadline
+        ? new Date(data.data.evidenceDeadline * 1000)
+        : null,
+    },
+  })
+
+  logger.info({ disputeId, chargeId }, 'Dispute created')
+}
+
+async function handleDisputeClosed(data: any) {
+  const disputeId = data.data?.id || data.id
+  const status = data.data?.status
+
+  await prisma.dispute.updateMany({
+    where: { shift4DisputeId: disputeId },
+    data: {
+      status: status === 'won' ? 'WON' : 'LOST',
+      resolvedAt: new Date(),
+      resolution: data.data?.outcome,
+    },
+  })
+
+  logger.info({ disputeId, status }, 'Dispute closed')
+}
+
+async function handlePayout(data: any) {
+  const payoutId = data.data?.id || data.id
+
+  // Upsert payout
+  await prisma.payout.upsert({
+    where: { shift4PayoutId: payoutId },
+    create: {
+      shift4PayoutId: payoutId,
+      amount: data.data?.amount || 0,
+      currency: data.data?.currency || 'usd',
+      status: data.type === 'payout.paid' ? 'PAID' : 'PENDING',
+      arrivalDate: data.data?.arrivalDate
+        ? new Date(data.data.arrivalDate * 1000)
+        : null,
+      description: data.data?.description,
+    },
+    update: {
+      status: data.type === 'payout.paid' ? 'PAID' : 'PENDING',
+    },
+  })
+
+  logger.info({ payoutId }, 'Payout processed')
+}
@@ -0,0 +1,29 @@
+/**
+ * Unit tests for card expiry classification
+ */
+
+import { getCardExpiresAt, getCardExpiryStatus, getExpiryCutoff } from '../card-expiry'
+
+const date = (iso: string) => new Date(`${iso}T00:00:00Z`)
+
+describe('card expiry', () => {
+  it('should expire at the start of the month after the expiry month', () => {
+    expect(getCardExpiresAt(2, 2027)).toEqual(date('2027-03-01'))
+    expect(getCardExpiresAt(12, 2027)).toEqual(date('2028-01-01'))
+  })
+
+  it('should classify cards against the warning window', () => {
+    const now = date('2026-10-19')
+
+    expect(getCardExpiryStatus(10, 2026, now, 30)).toBe('EXPIRING_SOON')
+    expect(getCardExpiryStatus(9, 2026, now, 30)).toBe('EXPIRED')
+    expect(getCardExpiryStatus(11, 2026, now, 30)).toBe('VALID')
+    expect(getCardExpiryStatus(11, 2026, now, 60)).toBe('EXPIRING_SOON')
+  })
+
+  it('should give the last expiry month inside the window', () => {
+    expect(getExpiryCutoff(date('2026-10-19'), 30)).toEqual({ expMonth: 10, expYear: 2026 })
+    expect(getExpiryCutoff(date('2026-12-10'), 30)).toEqual({ expMonth: 12, expYear: 2026 })
+    expect(getExpiryCutoff(date('2026-12-10'), 10)).toEqual({ expMonth: 11, expYear: 2026 })
+  })
+})
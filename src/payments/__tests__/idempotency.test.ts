@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit tests for Idempotency-Key handling, against an in-memory IdempotencyKey table
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withIdempotency } from '@/lib/api-utils'
+
+const rows = new Map<string, any>()
+
+interface KeyWhere {
+  where: { key: string; expiresAt?: Date }
+}
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    idempotencyKey: {
+      create: jest.fn(async ({ data }: Prisma.IdempotencyKeyCreateArgs) => {
+        if (rows.has(data.key)) {
+          throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+            code: 'P2002',
+            clientVersion: 'test',
+          })
+        }
+        rows.set(data.key, { responseData: null, statusCode: null, ...data })
+      }),
+      findUnique: jest.fn(async ({ where }: KeyWhere) => rows.get(where.key) ?? null),
+      update: jest.fn(async ({ where, data }: KeyWhere & { data: object }) =>
+        rows.set(where.key, { ...rows.get(where.key), ...data })
+      ),
+      delete: jest.fn(async ({ where }: KeyWhere) => rows.delete(where.key)),
+      deleteMany: jest.fn(async ({ where }: KeyWhere) => {
+        const row = rows.get(where.key)
+        const matches = row && (!where.expiresAt || row.expiresAt.getTime() === where.expiresAt.getTime())
+        if (matches) rows.delete(where.key)
+        return { count: matches ? 1 : 0 }
+      }),
+    },
+  },
+}))
+
+const post = (body: object, key = 'key-1') =>
+  new NextRequest('http://localhost/api/v1/payments', {
+    method: 'POST',
+    headers: { 'idempotency-key': key },
+    body: JSON.stringify(body),
+  })
+
+describe('withIdempotency', () => {
+  beforeEach(() => {
+    rows.clear()
+  })
+
+  it('should replay the stored response for the same key and body', async () => {
+    const handler = jest.fn(async () => NextResponse.json({ id: 'pay_1' }, { status: 201 }))
+    const route = withIdempotency(handler)
+
+    await route(post({ amount: 5000 }), {})
+    const replayed = await route(post({ amount: 5000 }), {})
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(replayed.status).toBe(201)
+    expect(replayed.headers.get('Idempotent-Replayed')).toBe('true')
+    expect(await replayed.json()).toEqual({ id: 'pay_1' })
+  })
+
+  it('should reject the same key with a different body', async () => {
+    const route = withIdempotency(async () => NextResponse.json({ id: 'pay_1' }))
+
+    await route(post({ amount: 5000 }), {})
+    const response = await route(post({ amount: 9000 }), {})
+
+    expect(response.status).toBe(409)
+    expect((await response.json()).error.message).toMatch(/different request/)
+  })
+
+  it('should reject a retry while the first request is in progress', async () => {
+    let finish: () => void = () => undefined
+    const route = withIdempotency(
+      () =>
+        new Promise<Response>((resolve) => {
+          finish = () => resolve(NextResponse.json({ id: 'pay_1' }))
+        })
+    )
+
+    const first = route(post({ amount: 5000 }), {})
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    const retry = await route(post({ amount: 5000 }), {})
+
+    expect(retry.status).toBe(409)
+    expect((await retry.json()).error.message).toMatch(/in progress/)
+
+    finish()
+    expect((await first).status).toBe(200)
+  })
+
+  it('should let a retry take over a key whose lease ran out', async () => {
+    const handler = jest.fn(async () => NextResponse.json({ id: 'pay_1' }))
+    const route = withIdempotency(handler)
+
+    await route(post({ amount: 5000 }), {})
+    rows.set('key-1', { ...rows.get('key-1'), statusCode: null, expiresAt: new Date(Date.now() - 1000) })
+
+    const retry = await route(post({ amount: 5000 }), {})
+
+    expect(retry.status).toBe(200)
+    expect(retry.headers.get('Idempotent-Replayed')).toBeNull()
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+
+  it('should release the key when the response cannot be stored', async () => {
+    const handler = jest.fn(async () => new Response('OK', { status: 200 }))
+    const route = withIdempotency(handler)
+
+    expect((await route(post({ amount: 5000 }), {})).status).toBe(200)
+    expect(rows.has('key-1')).toBe(false)
+
+    expect((await route(post({ amount: 5000 }), {})).status).toBe(200)
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+
+  it('should release the key when the handler throws', async () => {
+    const route = withIdempotency(async () => {
+      throw new Error('boom')
+    })
+
+    expect((await route(post({ amount: 5000 }), {})).status).toBe(500)
+    expect(rows.has('key-1')).toBe(false)
+  })
+})
@@ -8,6 +8,7 @@ import {
   CardError,
   AuthenticationError,
   InvalidRequestError,
+  WebhookSignatureError,
 } from '../errors'
 
 // Mock axios
@@ -119,6 +120,32 @@ describe('Shift4Adapter', () => {
       ).rejects.toThrow(CardError)
     })
 
+    it('should forward the idempotency key to Shift4', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          id: 'ch_test_123',
+          amount: 5000,
+          currency: 'usd',
+          status: 'successful',
+          captured: true,
+          created: 1234567890,
+        },
+      })
+
+      await adapter.createCharge({
+        amount: 5000,
+        currency: 'usd',
+        token: 'tok_test_123',
+        idempotencyKey: 'pay_abc123',
+      })
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/charges',
+        expect.objectContaining({ card: 'tok_test_123' }),
+        { headers: { 'Idempotency-Key': 'pay_abc123' } }
+      )
+    })
+
     it('should require either token or customerId', async () => {
       await expect(
         adapter.createCharge({
@@ -167,6 +194,31 @@ describe('Shift4Adapter', () => {
     })
   })
 
+  describe('voidCharge', () => {
+    it('should release an uncaptured authorization', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          id: 'ref_test_123',
+          chargeId: 'ch_test_123',
+          amount: 5000,
+          status: 'successful',
+          created: 1234567890,
+        },
+      })
+
+      const result = await adapter.voidCharge({
+        chargeId: 'ch_test_123',
+        reason: 'authorization_expired',
+      })
+
+      expect(result).toEqual({ chargeId: 'ch_test_123', voided: true })
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/refunds',
+        expect.objectContaining({ chargeId: 'ch_test_123' })
+      )
+    })
+  })
+
   describe('createCustomer', () => {
     it('should create a customer', async () => {
       const mockResponse = {
@@ -196,6 +248,58 @@ describe('Shift4Adapter', () => {
     })
   })
 
+  describe('getEvent', () => {
+    it('should fetch an event by id', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: {
+          id: 'evt_test_123',
+          type: 'charge.refunded',
+          created: 1234567890,
+          data: { id: 'ch_test_123', refunded: true },
+        },
+      })
+
+      const result = await adapter.getEvent('evt_test_123')
+
+      expect(result).toMatchObject({
+        id: 'evt_test_123',
+        type: 'charge.refunded',
+        data: { id: 'ch_test_123' },
+        livemode: false,
+      })
+      expect(result.created).toEqual(new Date(1234567890 * 1000))
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/events/evt_test_123')
+    })
+  })
+
+  describe('listEvents', () => {
+    it('should list events with filters', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: {
+          list: [
+            { id: 'evt_2', type: 'charge.succeeded', created: 1234567890, data: {} },
+            { id: 'evt_1', type: 'charge.failed', created: 1234567800, data: {} },
+          ],
+          hasMore: true,
+        },
+      })
+
+      const result = await adapter.listEvents({
+        limit: 2,
+        createdAfter: new Date(1234567000 * 1000),
+      })
+
+      expect(result.hasMore).toBe(true)
+      expect(result.events.map((e) => e.id)).toEqual(['evt_2', 'evt_1'])
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/events', {
+        params: {
+          limit: 2,
+          created: { gte: 1234567000, lte: undefined },
+        },
+      })
+    })
+  })
+
   describe('error handling', () => {
     it('should handle authentication errors', async () => {
       mockAxiosInstance.post.mockRejectedValue({
@@ -233,4 +337,13 @@ describe('Shift4Adapter', () => {
       ).rejects.toThrow()
     })
   })
+
+  describe('verifyWebhookSignature', () => {
+    it('should reject webhooks in live mode without a signing secret', () => {
+      const live = new Shift4Adapter({ ...mockConfig, mode: 'live' })
+
+      expect(() => live.verifyWebhookSignature('{}', null)).toThrow(WebhookSignatureError)
+      expect(() => adapter.verifyWebhookSignature('{}', null)).not.toThrow()
+    })
+  })
 })
@@ -0,0 +1,248 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration tests for Shift4Adapter against the Shift4 API simulator
+ */
+
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { Shift4Adapter } from '../adapters/shift4-adapter'
+import { CardError, NetworkError, RateLimitError } from '../errors'
+import { verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER } from '../webhook-signature'
+import {
+  SHIFT4_TEST_TOKENS,
+  Shift4Simulator,
+  startShift4Simulator,
+} from '@/simulators/shift4-simulator'
+
+describe('Shift4 simulator', () => {
+  let simulator: Shift4Simulator
+  let adapter: Shift4Adapter
+
+  beforeAll(async () => {
+    simulator = await startShift4Simulator({ port: 0, slowResponseMs: 100 })
+    adapter = new Shift4Adapter({
+      publicKey: 'pk_test_123',
+      secretKey: 'sk_test_123',
+      mode: 'test',
+      apiUrl: simulator.url,
+    })
+  })
+
+  afterEach(() => {
+    simulator.reset()
+  })
+
+  afterAll(async () => {
+    await simulator.close()
+  })
+
+  it('should authorize, capture and refund a charge', async () => {
+    const charge = await adapter.createCharge({
+      amount: 5000,
+      currency: 'usd',
+      token: SHIFT4_TEST_TOKENS.mastercard,
+      capture: false,
+    })
+
+    expect(charge).toMatchObject({ status: 'succeeded', captured: false })
+    expect(charge.card).toMatchObject({ brand: 'MasterCard', last4: '4444' })
+
+    const captured = await adapter.captureCharge({ chargeId: charge.chargeId, amount: 4000 })
+    const refund = await adapter.createRefund({ chargeId: charge.chargeId, amount: 1500 })
+
+    expect(captured).toEqual({ chargeId: charge.chargeId, amount: 4000, captured: true })
+    expect(refund).toMatchObject({ chargeId: charge.chargeId, amount: 1500, status: 'succeeded' })
+  })
+
+  it('should decline magic tokens with the card error code', async () => {
+    const charge = adapter.createCharge({
+      amount: 5000,
+      currency: 'usd',
+      token: SHIFT4_TEST_TOKENS.insufficientFunds,
+    })
+
+    await expect(charge).rejects.toBeInstanceOf(CardError)
+    await expect(charge).rejects.toMatchObject({ declineCode: 'insufficient_funds' })
+    expect(simulator.getEvents()[0].type).toBe('charge.failed')
+  })
+
+  it('should return rate limits, server errors and slow responses', async () => {
+    const charge = (token: string) =>
+      adapter.createCharge({ amount: 5000, currency: 'usd', token })
+
+    await expect(charge(SHIFT4_TEST_TOKENS.rateLimited)).rejects.toMatchObject({
+      constructor: RateLimitError,
+      retryAfter: 1,
+    })
+    await expect(charge(SHIFT4_TEST_TOKENS.serverError)).rejects.toBeInstanceOf(NetworkError)
+
+    const startedAt = Date.now()
+    await expect(charge(SHIFT4_TEST_TOKENS.slow)).resolves.toMatchObject({ status: 'succeeded' })
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(100)
+  })
+
+  it('should replay a repeated Idempotency-Key', async () => {
+    const request = {
+      amount: 5000,
+      currency: 'usd' as const,
+      token: SHIFT4_TEST_TOKENS.visa,
+      idempotencyKey: 'key-1',
+    }
+
+    const first = await adapter.createCharge(request)
+    const second = await adapter.createCharge(request)
+
+    expect(second.chargeId).toBe(first.chargeId)
+  })
+
+  it('should charge a saved card that declines later', async () => {
+    const { customerId } = await adapter.createCustomer({ email: 'jane@example.com' })
+    const saved = await adapter.savePaymentMethod({
+      customerId,
+      token: SHIFT4_TEST_TOKENS.insufficientFunds,
+    })
+
+    expect(saved.card).toMatchObject({ brand: 'Visa', last4: '9995' })
+    await expect(
+      adapter.createCharge({ amount: 5000, currency: 'usd', customerId })
+    ).rejects.toMatchObject({ declineCode: 'insufficient_funds' })
+  })
+
+  it('should charge a specific saved card', async () => {
+    const { customerId } = await adapter.createCustomer({ email: 'jane@example.com' })
+    const amex = await adapter.savePaymentMethod({ customerId, token: SHIFT4_TEST_TOKENS.amex })
+    await adapter.savePaymentMethod({ customerId, token: SHIFT4_TEST_TOKENS.visa })
+
+    const charge = await adapter.createCharge({
+      amount: 5000,
+      currency: 'usd',
+      customerId,
+      token: amex.cardId,
+    })
+
+    expect(charge.card).toMatchObject({ brand: 'American Express', last4: '0005' })
+    expect(charge.card?.expMonth).toBe(12)
+  })
+
+  it('should add cards without replacing the default', async () => {
+    const { customerId } = await adapter.createCustomer({ email: 'jane@example.com' })
+    const first = await adapter.savePaymentMethod({ customerId, token: SHIFT4_TEST_TOKENS.visa })
+    const second = await adapter.savePaymentMethod({ customerId, token: SHIFT4_TEST_TOKENS.amex })
+
+    expect(second.cardId).not.toBe(first.cardId)
+    expect(second.card).toMatchObject({ brand: 'American Express', last4: '0005' })
+
+    const charge = await adapter.createCharge({ amount: 5000, currency: 'usd', customerId })
+    expect(charge.card).toMatchObject({ brand: 'Visa', last4: '4242' })
+  })
+
+  it('should delete a saved card', async () => {
+    const { customerId } = await adapter.createCustomer({ email: 'jane@example.com' })
+    const personal = await adapter.savePaymentMethod({ customerId, token: SHIFT4_TEST_TOKENS.visa })
+    const business = await adapter.savePaymentMethod({ customerId, token: SHIFT4_TEST_TOKENS.amex })
+
+    await adapter.deletePaymentMethod({ customerId, cardId: business.cardId })
+
+    const charge = await adapter.createCharge({ amount: 5000, currency: 'usd', customerId })
+    expect(charge.card).toMatchObject({ brand: personal.card.brand, last4: personal.card.last4 })
+    await expect(
+      adapter.deletePaymentMethod({ customerId, cardId: business.cardId })
+    ).rejects.toMatchObject({ statusCode: 404 })
+  })
+
+  it('should return a reissued card with its new expiry', async () => {
+    const { customerId } = await adapter.createCustomer({ email: 'jane@example.com' })
+    const saved = await adapter.savePaymentMethod({ customerId, token: SHIFT4_TEST_TOKENS.expired })
+    const expiredAt = new Date(saved.card.expYear, saved.card.expMonth, 1)
+
+    expect(expiredAt.getTime()).toBeLessThanOrEqual(Date.now())
+
+    simulator.updateCard(saved.cardId, { expMonth: 8, expYear: 2031 })
+    const refreshed = await adapter.getPaymentMethod({ customerId, cardId: saved.cardId })
+
+    expect(refreshed).toEqual({
+      cardId: saved.cardId,
+      card: expect.objectContaining({ last4: '0069', expMonth: 8, expYear: 2031 }),
+    })
+    await expect(
+      adapter.createCharge({ amount: 5000, currency: 'usd', customerId, token: saved.cardId })
+    ).resolves.toMatchObject({ status: 'succeeded' })
+  })
+
+  it('should soft decline until the card passes 3-D Secure', async () => {
+    const charge = (token: string) =>
+      adapter.createCharge({ amount: 5000, currency: 'eur', token, requireThreeDSecure: true })
+
+    await expect(charge(SHIFT4_TEST_TOKENS.threeDSecureRequired)).rejects.toMatchObject({
+      declineCode: 'authentication_required',
+    })
+    await expect(charge(SHIFT4_TEST_TOKENS.visa)).rejects.toMatchObject({
+      declineCode: 'authentication_required',
+    })
+    await expect(charge(SHIFT4_TEST_TOKENS.threeDSecureFailed)).rejects.toBeInstanceOf(CardError)
+
+    await expect(charge(SHIFT4_TEST_TOKENS.threeDSecureAuthenticated)).resolves.toMatchObject({
+      status: 'succeeded',
+      threeDSecure: { enrolled: true, liabilityShift: 'successful' },
+    })
+    await expect(charge(SHIFT4_TEST_TOKENS.threeDSecureNotEnrolled)).resolves.toMatchObject({
+      status: 'succeeded',
+      threeDSecure: { enrolled: false, liabilityShift: 'not_possible' },
+    })
+  })
+
+  it('should list and fetch events', async () => {
+    const charge = await adapter.createCharge({
+      amount: 5000,
+      currency: 'usd',
+      token: SHIFT4_TEST_TOKENS.visa,
+    })
+    await adapter.createRefund({ chargeId: charge.chargeId })
+
+    const { events, hasMore } = await adapter.listEvents({ limit: 2 })
+
+    expect(events.map((event) => event.type)).toEqual(['refund.succeeded', 'charge.refunded'])
+    expect(hasMore).toBe(true)
+    expect((await adapter.getEvent(events[0].id)).data.chargeId).toBe(charge.chargeId)
+  })
+
+  it('should push signed webhooks', async () => {
+    const received: Array<{ body: string; signature?: string }> = []
+    const receiver = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        received.push({ body, signature: req.headers[WEBHOOK_SIGNATURE_HEADER] as string })
+        res.end('OK')
+      })
+    })
+    await new Promise<void>((resolve) => receiver.listen(0, resolve))
+
+    const pushing = await startShift4Simulator({
+      port: 0,
+      webhookUrl: `http://localhost:${(receiver.address() as AddressInfo).port}/webhooks`,
+      webhookSecret: 'whsec_test',
+    })
+
+    try {
+      const event = pushing.createEvent('charge.dispute.created', { id: 'char_1' })
+      await pushing.flushWebhooks()
+
+      expect(received).toHaveLength(1)
+      expect(JSON.parse(received[0].body)).toMatchObject({ id: event.id, type: event.type })
+      expect(() =>
+        verifyWebhookSignature({
+          payload: received[0].body,
+          signatureHeader: received[0].signature,
+          secrets: ['whsec_test'],
+        })
+      ).not.toThrow()
+    } finally {
+      await pushing.close()
+      await new Promise((resolve) => receiver.close(resolve))
+    }
+  })
+})
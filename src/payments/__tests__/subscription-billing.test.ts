@@ -0,0 +1,64 @@
+/**
+ * Unit tests for subscription billing math
+ */
+
+import {
+  addInterval,
+  calculateProration,
+  getNextRetryAt,
+  getUnusedFraction,
+} from '../subscription-billing'
+
+const date = (iso: string) => new Date(`${iso}T00:00:00Z`)
+
+describe('subscription billing', () => {
+  it('should add days, weeks and years', () => {
+    expect(addInterval(date('2026-03-01'), 'DAY', 14)).toEqual(date('2026-03-15'))
+    expect(addInterval(date('2026-03-01'), 'WEEK', 2)).toEqual(date('2026-03-15'))
+    expect(addInterval(date('2024-02-29'), 'YEAR')).toEqual(date('2025-02-28'))
+  })
+
+  it('should keep monthly renewals on the anchor day', () => {
+    const february = addInterval(date('2026-01-31'), 'MONTH')
+    const march = addInterval(february, 'MONTH', 1, 31)
+
+    expect(february).toEqual(date('2026-02-28'))
+    expect(march).toEqual(date('2026-03-31'))
+    expect(addInterval(date('2026-01-15'), 'MONTH', 3)).toEqual(date('2026-04-15'))
+  })
+
+  it('should measure the unused share of a period', () => {
+    const start = date('2026-04-01')
+    const end = date('2026-05-01')
+
+    expect(getUnusedFraction(start, end, date('2026-04-16'))).toBeCloseTo(0.5)
+    expect(getUnusedFraction(start, end, date('2026-05-10'))).toBe(0)
+    expect(getUnusedFraction(start, end, date('2026-03-01'))).toBe(1)
+  })
+
+  it('should prorate an upgrade within the same cycle', () => {
+    const basic = { amount: 1000, interval: 'MONTH' as const, intervalCount: 1 }
+    const premium = { amount: 3000, interval: 'MONTH' as const, intervalCount: 1 }
+
+    expect(
+      calculateProration(basic, premium, date('2026-04-01'), date('2026-05-01'), date('2026-04-16'))
+    ).toEqual({ credit: 500, charge: 1500, resetPeriod: false })
+  })
+
+  it('should start a new period when the cycle changes', () => {
+    const monthly = { amount: 1000, interval: 'MONTH' as const, intervalCount: 1 }
+    const yearly = { amount: 10000, interval: 'YEAR' as const, intervalCount: 1 }
+
+    expect(
+      calculateProration(monthly, yearly, date('2026-04-01'), date('2026-05-01'), date('2026-04-16'))
+    ).toEqual({ credit: 500, charge: 10000, resetPeriod: true })
+  })
+
+  it('should follow the retry schedule and then give up', () => {
+    const failedAt = date('2026-04-01')
+
+    expect(getNextRetryAt(1, failedAt, [1, 3])).toEqual(date('2026-04-02'))
+    expect(getNextRetryAt(2, failedAt, [1, 3])).toEqual(date('2026-04-04'))
+    expect(getNextRetryAt(3, failedAt, [1, 3])).toBeNull()
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit tests for cancelling an in-flight terminal payment
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+import { createTerminalClient } from '@/payments'
+import { POST } from '@/app/api/v1/checkout/terminal/[transactionId]/cancel/route'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    terminalTransaction: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}))
+jest.mock('@/lib/terminal-lock', () => ({ releaseTerminalLock: jest.fn() }))
+jest.mock('@/lib/terminal-payments', () => ({
+  abortTerminalTransaction: jest.fn(),
+  recordTerminalResult: jest.fn(),
+  recordTerminalCancelled: jest.fn(),
+}))
+jest.mock('@/lib/terminal-events', () => ({
+  getTerminalTransactionStatus: jest.fn(() => 'awaiting_card'),
+  publishTerminalStatus: jest.fn(),
+}))
+jest.mock('@/payments', () => ({
+  ...jest.requireActual('@/payments'),
+  createTerminalClient: jest.fn(),
+}))
+
+const transactions = prisma.terminalTransaction as unknown as Record<string, ReturnType<typeof jest.fn>>
+const mockedCreateTerminalClient = createTerminalClient as unknown as ReturnType<typeof jest.fn>
+
+describe('terminal payment cancel', () => {
+  const transaction = {
+    transactionId: 'tx-1',
+    terminalId: 'terminal-1',
+    requestType: 'payment',
+    status: 'AWAITING_CARD',
+    cancelRequestedAt: null,
+  }
+
+  const cancel = () =>
+    POST(
+      new NextRequest('http://localhost/api/v1/checkout/terminal/tx-1/cancel', { method: 'POST' }),
+      { params: { transactionId: 'tx-1' } }
+    )
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    transactions.findUnique.mockResolvedValue(transaction)
+    transactions.findUniqueOrThrow.mockResolvedValue({ ...transaction, terminal: { id: 'terminal-1' } })
+    transactions.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  it('should drop the claim when the device cannot be reached', async () => {
+    mockedCreateTerminalClient.mockReturnValue({
+      cancel: jest.fn().mockRejectedValue(new Error('Terminal offline')),
+    })
+
+    const response = await cancel()
+
+    expect(response.status).toBe(502)
+    expect((await response.json()).error.message).toMatch(/Terminal offline/)
+    expect(transactions.update).toHaveBeenCalledWith({
+      where: { transactionId: 'tx-1' },
+      data: { cancelRequestedAt: null },
+    })
+  })
+
+  it('should drop the claim when the status check fails', async () => {
+    mockedCreateTerminalClient.mockReturnValue({
+      cancel: jest.fn().mockResolvedValue({ cancelled: false }),
+      getStatus: jest.fn().mockRejectedValue(new Error('Request timed out')),
+    })
+
+    const response = await cancel()
+
+    expect(response.status).toBe(502)
+    expect(transactions.update).toHaveBeenCalledWith({
+      where: { transactionId: 'tx-1' },
+      data: { cancelRequestedAt: null },
+    })
+  })
+})
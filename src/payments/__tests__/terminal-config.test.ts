@@ -0,0 +1,62 @@
+/**
+ * Unit tests for per-terminal configuration
+ */
+
+import { parseTerminalConfig } from '../terminal-config'
+import { InvalidRequestError } from '../errors'
+
+describe('parseTerminalConfig', () => {
+  it('should treat missing config as empty', () => {
+    expect(parseTerminalConfig('UTG', null)).toEqual({})
+    expect(parseTerminalConfig('SKYTAB', undefined)).toEqual({})
+  })
+
+  it('should accept valid UTG config', () => {
+    expect(
+      parseTerminalConfig('UTG', {
+        timeoutMs: 30000,
+        enableSAF: true,
+        safFloorLimit: 5000,
+        maxTipPercent: 50,
+      })
+    ).toEqual({
+      timeoutMs: 30000,
+      enableSAF: true,
+      safFloorLimit: 5000,
+      maxTipPercent: 50,
+    })
+  })
+
+  it('should accept valid SkyTab config', () => {
+    expect(
+      parseTerminalConfig('SKYTAB', {
+        apiUrl: 'https://api.skytab.com',
+        merchantId: 'MERCH_1',
+      })
+    ).toEqual({ apiUrl: 'https://api.skytab.com', merchantId: 'MERCH_1' })
+  })
+
+  it('should accept configs written before validation', () => {
+    expect(
+      parseTerminalConfig('UTG', { timeout: 60000, retryAttempts: 2, enableTipping: true })
+    ).toEqual({ timeoutMs: 60000, retryAttempts: 2 })
+    expect(
+      parseTerminalConfig('SKYTAB', { deviceId: 'device_123', enableSignature: true })
+    ).toEqual({})
+    expect(parseTerminalConfig('UTG', { timeout: 60000, timeoutMs: 30000 })).toEqual({
+      timeoutMs: 30000,
+    })
+  })
+
+  it('should reject fields belonging to the other terminal type', () => {
+    expect(() => parseTerminalConfig('SKYTAB', { enableSAF: true })).toThrow(
+      InvalidRequestError
+    )
+  })
+
+  it('should reject invalid values with the offending field', () => {
+    expect(() => parseTerminalConfig('UTG', { safFloorLimit: -1 })).toThrow(
+      /Invalid UTG terminal config: safFloorLimit/
+    )
+  })
+})
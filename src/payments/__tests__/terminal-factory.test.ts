@@ -0,0 +1,62 @@
+/**
+ * Unit tests for the terminal client registry
+ */
+
+import {
+  createTerminalClient,
+  getRegisteredTerminalTypes,
+  registerTerminalAdapter,
+  TerminalRecord,
+} from '../terminal-factory'
+import { TerminalError } from '../errors'
+import { createUTGAdapter } from '../adapters/utg-adapter'
+
+jest.mock('../adapters/utg-adapter', () => ({
+  UTGAdapter: jest.fn(),
+  createUTGAdapter: jest.fn().mockReturnValue({ kind: 'utg' }),
+}))
+jest.mock('../adapters/skytab-adapter', () => ({
+  SkyTabAdapter: jest.fn(),
+  createSkyTabAdapter: jest.fn().mockReturnValue({ kind: 'skytab' }),
+}))
+
+describe('terminal registry', () => {
+  const terminal: TerminalRecord = {
+    id: 'terminal-123',
+    type: 'UTG',
+    apiTerminalId: 'TERM_001',
+    ipAddress: '10.0.0.5',
+    port: 9000,
+    config: { timeoutMs: 30000 },
+  }
+
+  it('should register the built-in terminal families', () => {
+    expect(getRegisteredTerminalTypes()).toEqual(expect.arrayContaining(['UTG', 'SKYTAB']))
+  })
+
+  it('should build UTG clients from the terminal row', () => {
+    expect(createTerminalClient(terminal)).toEqual({ kind: 'utg' })
+    expect(createUTGAdapter).toHaveBeenCalledWith(
+      'terminal-123',
+      expect.objectContaining({
+        host: '10.0.0.5',
+        port: 9000,
+        apiTerminalId: 'TERM_001',
+        timeout: 30000,
+      })
+    )
+  })
+
+  it('should use a registered adapter for a new terminal type', () => {
+    const client = { kind: 'custom' } as any
+    registerTerminalAdapter('CUSTOM', () => client)
+
+    expect(createTerminalClient({ ...terminal, type: 'CUSTOM' as any })).toBe(client)
+  })
+
+  it('should reject unknown terminal types', () => {
+    expect(() => createTerminalClient({ ...terminal, type: 'UNKNOWN' as any })).toThrow(
+      TerminalError
+    )
+  })
+})
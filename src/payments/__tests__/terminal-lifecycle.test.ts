@@ -0,0 +1,61 @@
+/**
+ * Unit tests for the terminal transaction lifecycle
+ */
+
+import {
+  canTransition,
+  getErrorStatus,
+  getPhaseDurations,
+  getResultStatus,
+  isFinalTransactionStatus,
+} from '../terminal-lifecycle'
+import { TerminalError, TerminalTimeoutError } from '../errors'
+
+describe('terminal transaction lifecycle', () => {
+  it('should allow the forward path and direct completion', () => {
+    expect(canTransition('PENDING', 'AWAITING_CARD')).toBe(true)
+    expect(canTransition('AWAITING_CARD', 'APPROVED')).toBe(true)
+    expect(canTransition('PENDING', 'CANCELLED')).toBe(true)
+  })
+
+  it('should never leave a final status or go backwards', () => {
+    expect(canTransition('AWAITING_CARD', 'PENDING')).toBe(false)
+    expect(canTransition('APPROVED', 'DECLINED')).toBe(false)
+    expect(canTransition('CANCELLED', 'APPROVED')).toBe(false)
+    expect(isFinalTransactionStatus('TIMEOUT')).toBe(true)
+    expect(isFinalTransactionStatus('AWAITING_CARD')).toBe(false)
+  })
+
+  it('should map device results and errors to statuses', () => {
+    const base = { transactionId: 'tx-1', amount: 5000, totalAmount: 5000 }
+
+    expect(getResultStatus({ ...base, approved: true })).toBe('APPROVED')
+    expect(getResultStatus({ ...base, approved: false, errorCode: 'CA' })).toBe('CANCELLED')
+    expect(getResultStatus({ ...base, approved: false, errorCode: 'TIMEOUT' })).toBe('TIMEOUT')
+    expect(getResultStatus({ ...base, approved: false, responseCode: '05' })).toBe('DECLINED')
+    expect(getErrorStatus(new TerminalTimeoutError('terminal-1'))).toBe('TIMEOUT')
+    expect(getErrorStatus(new TerminalError('boom', 'terminal-1'))).toBe('ERROR')
+  })
+
+  it('should split time into phases', () => {
+    const startedAt = new Date('2024-01-01T10:00:00.000Z')
+
+    expect(
+      getPhaseDurations(
+        {
+          startedAt,
+          awaitingCardAt: new Date('2024-01-01T10:00:02.000Z'),
+          cardPresentedAt: new Date('2024-01-01T10:00:12.000Z'),
+        },
+        new Date('2024-01-01T10:00:15.000Z')
+      )
+    ).toEqual({ durationMs: 15000, queueMs: 2000, customerMs: 10000, authorizationMs: 3000 })
+
+    expect(getPhaseDurations({ startedAt }, new Date('2024-01-01T10:00:01.000Z'))).toEqual({
+      durationMs: 1000,
+      queueMs: null,
+      customerMs: null,
+      authorizationMs: null,
+    })
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration tests for the terminal adapters against the device simulator
+ */
+
+import { UTGAdapter } from '../adapters/utg-adapter'
+import { SkyTabAdapter } from '../adapters/skytab-adapter'
+import { TerminalError, TerminalTimeoutError } from '../errors'
+import type { StartPaymentRequest } from '../types'
+import { startTerminalSimulator, TerminalSimulator } from '@/simulators/terminal-simulator'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('terminal simulator', () => {
+  let simulator: TerminalSimulator
+
+  const payment = (transactionId: string, extra: Partial<StartPaymentRequest> = {}) => ({
+    terminalId: 'terminal-123',
+    transactionId,
+    amount: 5000,
+    currency: 'usd' as const,
+    orderId: 'order-123',
+    ...extra,
+  })
+
+  beforeAll(async () => {
+    simulator = await startTerminalSimulator({
+      port: 0,
+      customerDelayMs: 20,
+      slowCustomerDelayMs: 300,
+      authorizationDelayMs: 10,
+      deviceTimeoutMs: 100,
+    })
+  })
+
+  afterEach(() => {
+    simulator.reset()
+  })
+
+  afterAll(async () => {
+    await simulator.close()
+  })
+
+  describe('UTG', () => {
+    let adapter: UTGAdapter
+
+    beforeEach(() => {
+      adapter = new UTGAdapter(
+        {
+          enabled: true,
+          host: 'localhost',
+          port: simulator.port,
+          apiTerminalId: 'TERM_001',
+          timeout: 5000,
+          retryAttempts: 0,
+          enableSAF: true,
+          safFloorLimit: 10000,
+        },
+        'terminal-123'
+      )
+    })
+
+    it('should run queued scenarios in order', async () => {
+      simulator.queueScenarios('approve', 'decline', 'partial_approval')
+
+      const approved = await adapter.startPayment(payment('tx-1'))
+      const declined = await adapter.startPayment(payment('tx-2'))
+      const partial = await adapter.startPayment(payment('tx-3'))
+
+      expect(approved).toMatchObject({ approved: true, totalAmount: 5000, cardLast4: '4242' })
+      expect(approved.token).toBeDefined()
+      expect(declined).toMatchObject({ approved: false, responseCode: '05' })
+      expect(partial).toMatchObject({ approved: true, amount: 2500, totalAmount: 2500 })
+      expect((await adapter.getStatus('tx-1')).status).toBe('approved')
+    })
+
+    it('should add the tip the customer picks', async () => {
+      simulator.setScenario('tip_prompt')
+
+      const result = await adapter.startPayment(payment('tx-1', { tipMode: 'prompt' }))
+
+      expect(result).toMatchObject({ approved: true, tipAmount: 1000, totalAmount: 6000 })
+    })
+
+    it('should approve offline and forward the SAF queue', async () => {
+      simulator.setScenario('saf')
+
+      const result = await adapter.startPayment(payment('tx-1'))
+      const forwarded = await adapter.forwardSAF()
+
+      expect(result).toMatchObject({ approved: true, storedOffline: true })
+      expect(forwarded.items).toEqual([
+        expect.objectContaining({ transactionId: 'tx-1', approved: true, amount: 5000 }),
+      ])
+    })
+
+    it('should cancel a slow customer before the card is presented', async () => {
+      simulator.setScenario('slow_customer')
+
+      const pending = adapter.startPayment(payment('tx-1'))
+      await sleep(50)
+
+      expect((await adapter.getStatus('tx-1')).status).toBe('pending')
+      expect(await adapter.cancel('tx-1')).toEqual({ cancelled: true })
+      await expect(pending).resolves.toMatchObject({ approved: false, errorCode: 'CA' })
+    })
+
+    it('should report device timeouts and offline terminals', async () => {
+      simulator.queueScenarios('timeout')
+
+      const timedOut = await adapter.startPayment(payment('tx-1'))
+      expect(timedOut).toMatchObject({ approved: false, errorCode: 'TO' })
+
+      simulator.setScenario('offline')
+
+      expect((await adapter.ping()).online).toBe(false)
+      await expect(adapter.startPayment(payment('tx-2'))).rejects.toThrow(TerminalError)
+    })
+  })
+
+  describe('SkyTab', () => {
+    let adapter: SkyTabAdapter
+
+    beforeEach(() => {
+      adapter = new SkyTabAdapter(
+        {
+          enabled: true,
+          apiUrl: simulator.url,
+          apiKey: 'sk_test',
+          merchantId: 'merchant-1',
+          timeout: 5000,
+          pollIntervalMs: 10,
+        },
+        'terminal-456',
+        'device-1'
+      )
+    })
+
+    it('should poll through to approval and void', async () => {
+      const statuses: string[] = []
+
+      const result = await adapter.startPayment(
+        payment('tx-1', { onStatusChange: (status) => statuses.push(status) })
+      )
+
+      expect(result).toMatchObject({ approved: true, totalAmount: 5000, cardBrand: 'VISA' })
+      expect(statuses[statuses.length - 1]).toBe('approved')
+      expect((await adapter.void('tx-1')).voided).toBe(true)
+      expect((await adapter.getStatus('tx-1')).status).toBe('cancelled')
+    })
+
+    it('should only cancel while waiting for a card', async () => {
+      simulator.setScenario('slow_customer')
+
+      const pending = adapter.startPayment(payment('tx-1'))
+      await sleep(50)
+      expect(await adapter.cancel('tx-1')).toEqual({ cancelled: true })
+      await expect(pending).resolves.toMatchObject({ approved: false, errorCode: 'CANCELLED' })
+
+      simulator.setScenario('approve')
+      await adapter.startPayment(payment('tx-2'))
+      expect((await adapter.cancel('tx-2')).cancelled).toBe(false)
+    })
+
+    it('should time out when the customer never presents a card', async () => {
+      simulator.setScenario('timeout')
+
+      await expect(adapter.startPayment(payment('tx-1'))).rejects.toThrow(TerminalTimeoutError)
+    })
+  })
+})
@@ -0,0 +1,52 @@
+/**
+ * Unit tests for the 3-D Secure policy
+ */
+
+import {
+  isLiabilityShifted,
+  isThreeDSecureDecline,
+  parseThreeDSecureThresholds,
+  requiresThreeDSecure,
+} from '../three-d-secure'
+
+describe('3-D Secure', () => {
+  it('should parse one threshold or one per currency', () => {
+    expect(parseThreeDSecureThresholds('10000')).toEqual({ '*': 10000 })
+    expect(parseThreeDSecureThresholds('usd:10000, EUR:5000')).toEqual({ usd: 10000, eur: 5000 })
+    expect(parseThreeDSecureThresholds('0')).toEqual({})
+    expect(parseThreeDSecureThresholds(undefined)).toEqual({})
+  })
+
+  it('should require verification at or above the threshold', () => {
+    const thresholds = { '*': 10000 }
+
+    expect(requiresThreeDSecure(9999, 'usd', thresholds)).toBe(false)
+    expect(requiresThreeDSecure(10000, 'usd', thresholds)).toBe(true)
+    expect(requiresThreeDSecure(25000, 'eur', thresholds)).toBe(true)
+  })
+
+  it('should compare against the threshold for the currency', () => {
+    const thresholds = { usd: 10000, eur: 5000 }
+
+    expect(requiresThreeDSecure(5000, 'EUR', thresholds)).toBe(true)
+    expect(requiresThreeDSecure(5000, 'usd', thresholds)).toBe(false)
+    expect(requiresThreeDSecure(1000000, 'gbp', thresholds)).toBe(false)
+  })
+
+  it('should never require verification without a threshold', () => {
+    expect(requiresThreeDSecure(1000000, 'usd', {})).toBe(false)
+  })
+
+  it('should recognise soft declines', () => {
+    expect(isThreeDSecureDecline('authentication_required')).toBe(true)
+    expect(isThreeDSecureDecline('insufficient_funds')).toBe(false)
+    expect(isThreeDSecureDecline(undefined)).toBe(false)
+  })
+
+  it('should only shift liability after successful authentication', () => {
+    expect(isLiabilityShifted({ enrolled: true, liabilityShift: 'successful' })).toBe(true)
+    expect(isLiabilityShifted({ enrolled: true, liabilityShift: 'failed' })).toBe(false)
+    expect(isLiabilityShifted({ enrolled: false, liabilityShift: 'not_possible' })).toBe(false)
+    expect(isLiabilityShifted(undefined)).toBe(false)
+  })
+})
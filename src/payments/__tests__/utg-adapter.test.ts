@@ -4,7 +4,7 @@
 
 import { UTGAdapter } from '../adapters/utg-adapter'
 import { UTGConfig } from '../types'
-import { TerminalOfflineError, TerminalTimeoutError } from '../errors'
+import { InvalidRequestError, TerminalOfflineError, TerminalTimeoutError } from '../errors'
 
 jest.mock('axios')
 import axios from 'axios'
@@ -32,6 +32,7 @@ describe('UTGAdapter', () => {
     }
 
     mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance)
+    mockedAxios.isAxiosError = jest.requireActual('axios').isAxiosError
 
     adapter = new UTGAdapter(mockConfig, 'terminal-123')
   })
@@ -96,6 +97,7 @@ describe('UTGAdapter', () => {
 
     it('should handle terminal offline error', async () => {
       mockAxiosInstance.post.mockRejectedValue({
+        isAxiosError: true,
         code: 'ECONNREFUSED',
       })
 
@@ -111,6 +113,7 @@ describe('UTGAdapter', () => {
 
     it('should handle timeout error', async () => {
       mockAxiosInstance.post.mockRejectedValue({
+        isAxiosError: true,
         code: 'ECONNABORTED',
       })
 
@@ -123,11 +126,34 @@ describe('UTGAdapter', () => {
         })
       ).rejects.toThrow(TerminalTimeoutError)
     })
+
+    it('should pass the cancel signal to the request', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { ResponseCode: '00', Amount: '5000' },
+      })
+      const controller = new AbortController()
+
+      await adapter.startPayment({
+        terminalId: 'terminal-123',
+        amount: 5000,
+        currency: 'usd',
+        orderId: 'order-123',
+        signal: controller.signal,
+      })
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/api/transaction',
+        expect.any(Object),
+        { signal: controller.signal }
+      )
+    })
   })
 
   describe('ping', () => {
     it('should return online status', async () => {
-      mockAxiosInstance.get.mockResolvedValue({})
+      mockAxiosInstance.get.mockImplementation(
+        () => new Promise((resolve) => setTimeout(() => resolve({}), 5))
+      )
 
       const result = await adapter.ping()
 
@@ -179,4 +205,219 @@ describe('UTGAdapter', () => {
       expect(result.amount).toBe(2500)
     })
   })
+
+  describe('authorize', () => {
+    it('should send an Auth transaction with the caller transaction id', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          ResponseCode: '00',
+          Amount: '5000',
+          Token: 'tok_terminal_123',
+          AuthCode: 'AUTH123',
+        },
+      })
+
+      const result = await adapter.authorize({
+        terminalId: 'terminal-123',
+        transactionId: 'tx-123',
+        amount: 5000,
+        currency: 'usd',
+        orderId: 'order-123',
+      })
+
+      expect(result).toMatchObject({ transactionId: 'tx-123', approved: true })
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/api/transaction',
+        expect.objectContaining({ TransactionType: 'Auth', TransactionId: 'tx-123' })
+      )
+    })
+  })
+
+  describe('capture', () => {
+    it('should capture the final amount with tip', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          ResponseCode: '00',
+          Amount: '5000',
+          TipAmount: '1000',
+          TotalAmount: '6000',
+        },
+      })
+
+      const result = await adapter.capture({
+        transactionId: 'tx-123',
+        amount: 5000,
+        tipAmount: 1000,
+        currency: 'usd',
+      })
+
+      expect(result).toMatchObject({ approved: true, tipAmount: 1000, totalAmount: 6000 })
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/api/transaction',
+        expect.objectContaining({
+          TransactionType: 'Capture',
+          OriginalTransactionId: 'tx-123',
+          TipAmount: '1000',
+        })
+      )
+    })
+
+    it('should send an incremental authorization when not final', async () => {
+      adapter = new UTGAdapter({ ...mockConfig, enableIncrementalAuth: true }, 'terminal-123')
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { ResponseCode: '00', Amount: '8000' },
+      })
+
+      await adapter.capture({
+        transactionId: 'tx-123',
+        amount: 8000,
+        currency: 'usd',
+        final: false,
+      })
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/api/transaction',
+        expect.objectContaining({ TransactionType: 'Auth', Incremental: true })
+      )
+    })
+
+    it('should refuse incremental authorization unless enabled', async () => {
+      await expect(
+        adapter.capture({ transactionId: 'tx-123', amount: 8000, currency: 'usd', final: false })
+      ).rejects.toBeInstanceOf(InvalidRequestError)
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('void', () => {
+    it('should void an approved transaction', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          ResponseCode: '00',
+        },
+      })
+
+      const result = await adapter.void('tx-123')
+
+      expect(result.voided).toBe(true)
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/api/transaction',
+        expect.objectContaining({ TransactionType: 'Void', OriginalTransactionId: 'tx-123' })
+      )
+    })
+  })
+
+  describe('adjustTip', () => {
+    it('should replace the tip on an approved sale', async () => {
+      adapter = new UTGAdapter({ ...mockConfig, enableTipAdjust: true }, 'terminal-123')
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          ResponseCode: '00',
+          Amount: '5000',
+          TipAmount: '900',
+          TotalAmount: '5900',
+        },
+      })
+
+      const result = await adapter.adjustTip('tx-123', 900)
+
+      expect(result).toMatchObject({ approved: true, tipAmount: 900, totalAmount: 5900 })
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/api/transaction',
+        expect.objectContaining({
+          TransactionType: 'TipAdjust',
+          OriginalTransactionId: 'tx-123',
+          TipAmount: '900',
+        })
+      )
+    })
+
+    it('should refuse tip adjustment unless enabled', async () => {
+      await expect(adapter.adjustTip('tx-123', 900)).rejects.toBeInstanceOf(InvalidRequestError)
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('store-and-forward', () => {
+    beforeEach(() => {
+      adapter = new UTGAdapter(
+        { ...mockConfig, enableSAF: true, safFloorLimit: 5000 },
+        'terminal-123'
+      )
+    })
+
+    it('should allow offline approval only within the floor limit', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { ResponseCode: '00', Amount: '5000', StoredOffline: true },
+      })
+
+      const result = await adapter.startPayment({
+        terminalId: 'terminal-123',
+        amount: 5000,
+        currency: 'usd',
+        orderId: 'order-123',
+      })
+
+      expect(result.storedOffline).toBe(true)
+      expect(mockAxiosInstance.post).toHaveBeenLastCalledWith(
+        '/api/transaction',
+        expect.objectContaining({ SAFAllowed: true, SAFFloorLimit: '5000' })
+      )
+
+      await adapter.startPayment({
+        terminalId: 'terminal-123',
+        amount: 5001,
+        currency: 'usd',
+        orderId: 'order-123',
+      })
+
+      expect(mockAxiosInstance.post).toHaveBeenLastCalledWith(
+        '/api/transaction',
+        expect.objectContaining({ SAFAllowed: false })
+      )
+    })
+
+    it('should not approve offline without a floor limit', async () => {
+      adapter = new UTGAdapter({ ...mockConfig, enableSAF: true }, 'terminal-123')
+      mockAxiosInstance.post.mockResolvedValue({ data: { ResponseCode: '00', Amount: '100' } })
+
+      await adapter.startPayment({
+        terminalId: 'terminal-123',
+        amount: 100,
+        currency: 'usd',
+        orderId: 'order-123',
+      })
+
+      expect(mockAxiosInstance.post).toHaveBeenLastCalledWith(
+        '/api/transaction',
+        expect.objectContaining({ SAFAllowed: false, SAFFloorLimit: undefined })
+      )
+    })
+
+    it('should not forward unless store-and-forward is enabled', async () => {
+      adapter = new UTGAdapter(mockConfig, 'terminal-123')
+
+      await expect(adapter.forwardSAF()).rejects.toBeInstanceOf(InvalidRequestError)
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled()
+    })
+
+    it('should map forwarded results', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          Transactions: [
+            { TransactionId: 'tx-1', ResponseCode: '00', Amount: '2500', AuthCode: 'AUTH1' },
+            { TransactionId: 'tx-2', ResponseCode: '05', Amount: '1200', ResponseMessage: 'Do not honor' },
+          ],
+        },
+      })
+
+      const result = await adapter.forwardSAF()
+
+      expect(result.forwarded).toBe(2)
+      expect(result.items).toEqual([
+        expect.objectContaining({ transactionId: 'tx-1', approved: true, amount: 2500, authCode: 'AUTH1' }),
+        expect.objectContaining({ transactionId: 'tx-2', approved: false, responseMessage: 'Do not honor' }),
+      ])
+    })
+  })
 })
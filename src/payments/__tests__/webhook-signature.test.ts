@@ -0,0 +1,71 @@
+/**
+ * Unit tests for webhook signature verification
+ */
+
+import {
+  buildWebhookSignatureHeader,
+  computeWebhookSignature,
+  verifyWebhookSignature,
+} from '../webhook-signature'
+import { WebhookSignatureError } from '../errors'
+
+describe('verifyWebhookSignature', () => {
+  const payload = JSON.stringify({ id: 'evt_test_123', type: 'charge.refunded' })
+  const secret = 'whsec_current'
+  const previousSecret = 'whsec_previous'
+  const now = new Date(1700000000 * 1000)
+  const timestamp = 1700000000
+
+  it('should accept a valid signature', () => {
+    const header = buildWebhookSignatureHeader(payload, secret, timestamp)
+
+    expect(() =>
+      verifyWebhookSignature({ payload, signatureHeader: header, secrets: [secret], now })
+    ).not.toThrow()
+  })
+
+  it('should accept a signature made with the previous secret during rotation', () => {
+    const header = buildWebhookSignatureHeader(payload, previousSecret, timestamp)
+
+    expect(() =>
+      verifyWebhookSignature({
+        payload,
+        signatureHeader: header,
+        secrets: [secret, previousSecret],
+        now,
+      })
+    ).not.toThrow()
+  })
+
+  it('should reject a tampered payload', () => {
+    const header = buildWebhookSignatureHeader(payload, secret, timestamp)
+
+    expect(() =>
+      verifyWebhookSignature({
+        payload: payload.replace('refunded', 'succeeded'),
+        signatureHeader: header,
+        secrets: [secret],
+        now,
+      })
+    ).toThrow(WebhookSignatureError)
+  })
+
+  it('should reject a timestamp outside the tolerance', () => {
+    const staleTimestamp = timestamp - 301
+    const header = `t=${staleTimestamp},v1=${computeWebhookSignature(payload, staleTimestamp, secret)}`
+
+    expect(() =>
+      verifyWebhookSignature({ payload, signatureHeader: header, secrets: [secret], now })
+    ).toThrow('Webhook timestamp outside tolerance')
+  })
+
+  it('should reject missing or malformed headers', () => {
+    expect(() =>
+      verifyWebhookSignature({ payload, signatureHeader: null, secrets: [secret], now })
+    ).toThrow('Missing webhook signature header')
+
+    expect(() =>
+      verifyWebhookSignature({ payload, signatureHeader: 'garbage', secrets: [secret], now })
+    ).toThrow('Malformed webhook signature header')
+  })
+})
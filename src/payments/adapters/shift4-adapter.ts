@@ -12,11 +12,20 @@ import type {
   CreateChargeResponse,
   CaptureChargeRequest,
   CaptureChargeResponse,
+  VoidChargeRequest,
+  VoidChargeResponse,
   CreateRefundRequest,
   CreateRefundResponse,
   SavePaymentMethodRequest,
   SavePaymentMethodResponse,
+  GetPaymentMethodRequest,
+  DeletePaymentMethodRequest,
+  ListEventsRequest,
+  ListEventsResponse,
+  WebhookEvent,
   Shift4Config,
+  CardDetails,
+  ThreeDSecureInfo,
 } from '../types'
 import {
   PaymentError,
@@ -27,8 +36,9 @@ import {
   NetworkError,
 } from '../errors'
 import { logger } from '../logger'
+import { verifyWebhookSignature } from '../webhook-signature'
 
-const SHIFT4_API_URL = 'https://api.shift4.com'
+const DEFAULT_SHIFT4_API_URL = 'https://api.shift4.com'
 
 export class Shift4Adapter implements OnlinePaymentAdapter {
   private client: AxiosInstance
@@ -38,7 +48,7 @@ export class Shift4Adapter implements OnlinePaymentAdapter {
     this.config = config
 
     this.client = axios.create({
-      baseURL: SHIFT4_API_URL,
+      baseURL: config.apiUrl || DEFAULT_SHIFT4_API_URL,
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
@@ -124,20 +134,29 @@ export class Shift4Adapter implements OnlinePaymentAdapter {
         description: request.description,
       }
 
-      // Either use token or customerId
+      // A token, a customer's default card, or one of the customer's saved cards
+      if (!request.token && !request.customerId) {
+        throw new InvalidRequestError('Either token or customerId is required')
+      }
+
       if (request.token) {
         payload.card = request.token
-      } else if (request.customerId) {
+      }
+
+      if (request.customerId) {
         payload.customerId = request.customerId
-      } else {
-        throw new InvalidRequestError('Either token or customerId is required')
+      }
+
+      // Shift4 declines the charge itself, so an unverified token can't slip through
+      if (request.requireThreeDSecure) {
+        payload.threeDSecure = { requireSuccessfulLiabilityShiftForEnrolledCard: true }
       }
 
       if (request.metadata) {
         payload.metadata = request.metadata
       }
 
-      const response = await this.client.post('/charges', payload)
+      const response = await this.post('/charges', payload, request.idempotencyKey)
 
       const charge = response.data
 
@@ -147,14 +166,9 @@ export class Shift4Adapter implements OnlinePaymentAdapter {
         currency: charge.currency,
         status: this.mapChargeStatus(charge),
         captured: charge.captured,
-        card: charge.card
-          ? {
-              brand: charge.card.brand,
-              last4: charge.card.last4,
-              expMonth: charge.card.expMonth,
-              expYear: charge.card.expYear,
-              funding: charge.card.type,
-            }
+        card: charge.card ? this.mapCard(charge.card) : undefined,
+        threeDSecure: charge.threeDSecureInfo
+          ? this.mapThreeDSecure(charge.threeDSecureInfo)
           : undefined,
         created: new Date(charge.created * 1000),
         failureCode: charge.failureCode,
@@ -176,9 +190,10 @@ export class Shift4Adapter implements OnlinePaymentAdapter {
         payload.amount = request.amount
       }
 
-      const response = await this.client.post(
+      const response = await this.post(
         `/charges/${request.chargeId}/capture`,
-        payload
+        payload,
+        request.idempotencyKey
       )
 
       return {
@@ -192,6 +207,32 @@ export class Shift4Adapter implements OnlinePaymentAdapter {
     }
   }
 
+  /**
+   * Void (release) an uncaptured authorization
+   * Shift4 releases the hold when an uncaptured charge is refunded in full
+   */
+  async voidCharge(request: VoidChargeRequest): Promise<VoidChargeResponse> {
+    try {
+      const payload: any = {
+        chargeId: request.chargeId,
+      }
+
+      if (request.reason) {
+        payload.reason = request.reason
+      }
+
+      const response = await this.post('/refunds', payload, request.idempotencyKey)
+
+      return {
+        chargeId: request.chargeId,
+        voided: response.data.status !== 'failed',
+      }
+    } catch (error) {
+      logger.error({ error, request }, 'Failed to void charge')
+      throw error
+    }
+  }
+
   /**
    * Create a refund
    */
@@ -213,7 +254,7 @@ export class Shift4Adapter implements OnlinePaymentAdapter {
         payload.metadata = request.metadata
       }
 
-      const response = await this.client.post('/refunds', payload)
+      const response = await this.post('/refunds', payload, request.idempotencyKey)
 
       return {
         refundId: response.data.id,
@@ -230,27 +271,21 @@ export class Shift4Adapter implements OnlinePaymentAdapter {
 
   /**
    * Save a payment method to a customer
+   * Adds a card without changing the customer's default card in Shift4
    */
   async savePaymentMethod(
     request: SavePaymentMethodRequest
   ): Promise<SavePaymentMethodResponse> {
     try {
-      // Update customer with new card
-      const response = await this.client.post(`/customers/${request.customerId}`, {
-        card: request.token,
+      const response = await this.client.post(`/customers/${request.customerId}/cards`, {
+        id: request.token,
       })
 
-      const card = response.data.cards[0] // Get the most recent card
+      const card = response.data
 
       return {
         cardId: card.id,
-        card: {
-          brand: card.brand,
-          last4: card.last4,
-          expMonth: card.expMonth,
-          expYear: card.expYear,
-          funding: card.type,
-        },
+        card: this.mapCard(card),
       }
     } catch (error) {
       logger.error({ error, request }, 'Failed to save payment method')
@@ -258,6 +293,38 @@ export class Shift4Adapter implements OnlinePaymentAdapter {
     }
   }
 
+  /**
+   * Get a saved card's current details
+   * Shift4 keeps saved cards up to date (e.g. a reissued expiry date)
+   */
+  async getPaymentMethod(request: GetPaymentMethodRequest): Promise<SavePaymentMethodResponse> {
+    try {
+      const response = await this.client.get(
+        `/customers/${request.customerId}/cards/${request.cardId}`
+      )
+
+      return {
+        cardId: response.data.id,
+        card: this.mapCard(response.data),
+      }
+    } catch (error) {
+      logger.error({ error, request }, 'Failed to get payment method')
+      throw error
+    }
+  }
+
+  /**
+   * Delete a saved card from a customer
+   */
+  async deletePaymentMethod(request: DeletePaymentMethodRequest): Promise<void> {
+    try {
+      await this.client.delete(`/customers/${request.customerId}/cards/${request.cardId}`)
+    } catch (error) {
+      logger.error({ error, request }, 'Failed to delete payment method')
+      throw error
+    }
+  }
+
   /**
    * Get charge details
    */
@@ -272,14 +339,9 @@ export class Shift4Adapter implements OnlinePaymentAdapter {
         currency: charge.currency,
         status: this.mapChargeStatus(charge),
         captured: charge.captured,
-        card: charge.card
-          ? {
-              brand: charge.card.brand,
-              last4: charge.card.last4,
-              expMonth: charge.card.expMonth,
-              expYear: charge.card.expYear,
-              funding: charge.card.type,
-            }
+        card: charge.card ? this.mapCard(charge.card) : undefined,
+        threeDSecure: charge.threeDSecureInfo
+          ? this.mapThreeDSecure(charge.threeDSecureInfo)
           : undefined,
         created: new Date(charge.created * 1000),
         failureCode: charge.failureCode,
@@ -291,6 +353,141 @@ export class Shift4Adapter implements OnlinePaymentAdapter {
     }
   }
 
+  /**
+   * Get event details
+   * Webhook payloads should always be re-fetched through this method
+   * before being acted on, since the POSTed body is not authenticated
+   */
+  async getEvent(eventId: string): Promise<WebhookEvent> {
+    try {
+      const response = await this.client.get(`/events/${eventId}`)
+
+      return this.mapEvent(response.data)
+    } catch (error) {
+      logger.error({ error, eventId }, 'Failed to get event')
+      throw error
+    }
+  }
+
+  /**
+   * List events, newest first
+   */
+  async listEvents(request: ListEventsRequest = {}): Promise<ListEventsResponse> {
+    try {
+      const params: any = {}
+
+      if (request.limit) {
+        params.limit = request.limit
+      }
+
+      if (request.startingAfterId) {
+        params.startingAfterId = request.startingAfterId
+      }
+
+      if (request.endingBeforeId) {
+        params.endingBeforeId = request.endingBeforeId
+      }
+
+      if (request.createdAfter || request.createdBefore) {
+        params.created = {
+          gte: request.createdAfter
+            ? Math.floor(request.createdAfter.getTime() / 1000)
+            : undefined,
+          lte: request.createdBefore
+            ? Math.floor(request.createdBefore.getTime() / 1000)
+            : undefined,
+        }
+      }
+
+      const response = await this.client.get('/events', { params })
+
+      return {
+        events: (response.data.list || []).map((event: any) => this.mapEvent(event)),
+        hasMore: response.data.hasMore ?? false,
+      }
+    } catch (error) {
+      logger.error({ error, request }, 'Failed to list events')
+      throw error
+    }
+  }
+
+  /**
+   * Verify the signature of a raw webhook body
+   * Throws WebhookSignatureError if the signature is missing, stale or invalid
+   * Without a signing secret, live mode rejects every webhook; test mode
+   * accepts them unverified for local development
+   */
+  verifyWebhookSignature(payload: string, signatureHeader: string | null): void {
+    const secrets = [this.config.webhookSecret, this.config.previousWebhookSecret].filter(
+      (secret): secret is string => !!secret
+    )
+
+    if (secrets.length === 0 && this.config.mode !== 'live') {
+      logger.warn('Webhook signing secret not configured, skipping signature verification')
+      return
+    }
+
+    verifyWebhookSignature({
+      payload,
+      signatureHeader,
+      secrets,
+      toleranceSeconds: this.config.webhookToleranceSeconds,
+    })
+  }
+
+  /**
+   * Map Shift4 event object to our standard WebhookEvent
+   */
+  private mapEvent(event: any): WebhookEvent {
+    return {
+      id: event.id,
+      type: event.type,
+      created: new Date(event.created * 1000),
+      data: event.data,
+      livemode: this.config.mode === 'live',
+    }
+  }
+
+  /**
+   * POST with an optional Idempotency-Key header
+   * Shift4 returns the original result for a repeated key instead of
+   * performing the operation again (e.g. after a client-side timeout)
+   */
+  private post(url: string, data: any, idempotencyKey?: string) {
+    if (!idempotencyKey) {
+      return this.client.post(url, data)
+    }
+
+    return this.client.post(url, data, {
+      headers: { 'Idempotency-Key': idempotencyKey },
+    })
+  }
+
+  /**
+   * Map a Shift4 card object (expiry fields arrive as strings)
+   */
+  private mapCard(card: any): CardDetails {
+    return {
+      brand: card.brand,
+      last4: card.last4,
+      expMonth: Number(card.expMonth),
+      expYear: Number(card.expYear),
+      funding: card.type,
+    }
+  }
+
+  /**
+   * Map a Shift4 threeDSecureInfo object
+   */
+  private mapThreeDSecure(info: any): ThreeDSecureInfo {
+    return {
+      enrolled: info.enrolled,
+      liabilityShift: info.liabilityShift,
+      version: info.version,
+      authenticationFlow: info.authenticationFlow,
+    }
+  }
+
   /**
    * Map Shift4 charge status to our standard status
    */
@@ -365,12 +562,22 @@ export function createShift4Adapter(): Shift4Adapter {
     secretKey: process.env.SHIFT4_SECRET_KEY!,
     mode: (process.env.SHIFT4_MODE as 'test' | 'live') || 'test',
     webhookSecret: process.env.SHIFT4_WEBHOOK_SIGNING_SECRET,
+    previousWebhookSecret: process.env.SHIFT4_WEBHOOK_SIGNING_SECRET_PREVIOUS,
+    webhookToleranceSeconds: process.env.SHIFT4_WEBHOOK_TOLERANCE_SECONDS
+      ? parseInt(process.env.SHIFT4_WEBHOOK_TOLERANCE_SECONDS, 10)
+      : undefined,
     accountId: process.env.SHIFT4_ACCOUNT_ID,
+    apiUrl: process.env.SHIFT4_API_URL || undefined,
   }
 
   if (!config.publicKey || !config.secretKey) {
     throw new Error('SHIFT4_PUBLIC_KEY and SHIFT4_SECRET_KEY must be set')
   }
 
+  // Guards against live keys being sent to a local simulator or over plain HTTP
+  if (config.mode === 'live' && config.apiUrl && !config.apiUrl.startsWith('https://')) {
+    throw new Error('SHIFT4_API_URL must use https in live mode')
+  }
+
   return new Shift4Adapter(config)
 }
@@ -16,6 +16,8 @@ import type {
   TransactionStatus,
   RefundRequest,
   RefundResult,
+  TerminalCaptureRequest,
+  VoidResult,
   TerminalInfo,
   SkyTabConfig,
   EntryMode,
@@ -47,6 +49,7 @@ enum SkyTabStatus {
   APPROVED = 'approved',
   DECLINED = 'declined',
   CANCELLED = 'cancelled',
+  VOIDED = 'voided',
   ERROR = 'error',
 }
 
@@ -86,77 +89,112 @@ export class SkyTabAdapter implements TerminalClient {
    * Start a payment transaction on the SkyTab device
    */
   async startPayment(request: StartPaymentRequest): Promise<PaymentResult> {
-    const transactionId = nanoid()
+    return this.startCardTransaction(SkyTabTransactionType.SALE, request)
+  }
+
+  /**
+   * Pre-authorize a card on the SkyTab device (e.g. opening a tab)
+   */
+  async authorize(request: StartPaymentRequest): Promise<PaymentResult> {
+    return this.startCardTransaction(SkyTabTransactionType.AUTH, request)
+  }
+
+  /**
+   * Capture a pre-authorization with the final amount and tip,
+   * or raise it incrementally while the tab stays open
+   */
+  async capture(request: TerminalCaptureRequest): Promise<PaymentResult> {
+    const final = request.final ?? true
 
     try {
+      const response = await this.client.post(
+        `/api/v1/transactions/${request.transactionId}/${final ? 'capture' : 'increment'}`,
+        {
+          device_id: this.deviceId,
+          amount: request.amount,
+          tip_amount: request.tipAmount,
+          currency: request.currency.toUpperCase(),
+        }
+      )
+
+      const result = this.parseTransactionData(response.data, request.transactionId)
+
       logger.info(
         {
-          terminalId: this.terminalId,
+          transactionId: request.transactionId,
           deviceId: this.deviceId,
-          transactionId,
+          approved: result.approved,
           amount: request.amount,
+          final,
         },
-        'Starting SkyTab payment'
+        final ? 'SkyTab capture processed' : 'SkyTab incremental authorization processed'
       )
 
-      // Build SkyTab request
-      // TODO: Verify this structure against SkyTab API documentation
-      const skyTabRequest = {
-        device_id: this.deviceId,
-        transaction_type: SkyTabTransactionType.SALE,
-        reference_id: transactionId,
-        amount: request.amount,
-        currency: request.currency.toUpperCase(),
-        // Tipping configuration
-        tip_enabled: request.tipMode === 'prompt',
-        tip_amount: request.fixedTipAmount,
-        // Signature
-        signature_required: request.promptForSignature ?? false,
-        // Metadata
-        metadata: {
-          order_id: request.orderId,
-          ...request.metadata,
-        },
-      }
+      return result
+    } catch (error) {
+      logger.error({ error, request }, 'SkyTab capture failed')
+      throw new TerminalError(
+        `SkyTab capture failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.terminalId
+      )
+    }
+  }
 
-      // Initiate transaction on device
+  /**
+   * Void an approved authorization or sale before the batch settles
+   */
+  async void(transactionId: string): Promise<VoidResult> {
+    try {
       const response = await this.client.post(
-        '/api/v1/transactions',
-        skyTabRequest
+        `/api/v1/transactions/${transactionId}/void`,
+        { device_id: this.deviceId }
       )
 
-      const transactionData = response.data
+      const data = response.data
+      const voided = data.status === SkyTabStatus.VOIDED
 
-      // Poll for transaction result
-      // SkyTab typically requires polling until the transaction completes
-      const result = await this.pollTransactionStatus(
-        transactionData.transaction_id || transactionId,
-        request.amount
-      )
+      logger.info({ transactionId, deviceId: this.deviceId, voided }, 'SkyTab void processed')
 
-      return result
+      return {
+        voided,
+        responseCode: data.response_code,
+        responseMessage: data.response_message,
+        error: voided ? undefined : data.response_message,
+      }
     } catch (error) {
-      logger.error(
-        {
-          error,
-          terminalId: this.terminalId,
-          deviceId: this.deviceId,
-          transactionId,
-        },
-        'SkyTab payment failed'
+      logger.error({ error, transactionId }, 'SkyTab void failed')
+      throw new TerminalError(
+        `SkyTab void failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.terminalId
       )
+    }
+  }
 
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNREFUSED' || error.code === 'ETIMEDOUT') {
-          throw new TerminalOfflineError(this.terminalId)
-        }
-        if (error.code === 'ECONNABORTED') {
-          throw new TerminalTimeoutError(this.terminalId)
+  /**
+   * Replace the tip on an approved sale before the batch settles
+   */
+  async adjustTip(transactionId: string, tipAmount: number): Promise<PaymentResult> {
+    try {
+      const response = await this.client.post(
+        `/api/v1/transactions/${transactionId}/tip`,
+        {
+          device_id: this.deviceId,
+          tip_amount: tipAmount,
         }
-      }
+      )
+
+      const result = this.parseTransactionData(response.data, transactionId)
+
+      logger.info(
+        { transactionId, deviceId: this.deviceId, approved: result.approved, tipAmount },
+        'SkyTab tip adjust processed'
+      )
 
+      return result
+    } catch (error) {
+      logger.error({ error, transactionId }, 'SkyTab tip adjust failed')
       throw new TerminalError(
-        `SkyTab payment failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        `SkyTab tip adjust failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         this.terminalId
       )
     }
@@ -232,6 +270,7 @@ export class SkyTabAdapter implements TerminalClient {
       const response = await this.client.post('/api/v1/refunds', {
         device_id: this.deviceId,
         original_transaction_id: request.transactionId,
+        card_token: request.token, // Unreferenced refund when there is no original transaction
         reference_id: refundId,
         amount: request.amount,
         currency: request.currency.toUpperCase(),
@@ -332,20 +371,125 @@ export class SkyTabAdapter implements TerminalClient {
     }
   }
 
+  /**
+   * Run a card-present transaction (sale or auth) and wait for the result
+   */
+  private async startCardTransaction(
+    transactionType: SkyTabTransactionType,
+    request: StartPaymentRequest
+  ): Promise<PaymentResult> {
+    const transactionId = request.transactionId || nanoid()
+
+    try {
+      logger.info(
+        {
+          terminalId: this.terminalId,
+          deviceId: this.deviceId,
+          transactionId,
+          transactionType,
+          amount: request.amount,
+        },
+        'Starting SkyTab payment'
+      )
+
+      // Build SkyTab request
+      // TODO: Verify this structure against SkyTab API documentation
+      const skyTabRequest = {
+        device_id: this.deviceId,
+        transaction_type: transactionType,
+        reference_id: transactionId,
+        amount: request.amount,
+        currency: request.currency.toUpperCase(),
+        // Tipping configuration
+        tip_enabled: request.tipMode === 'prompt',
+        tip_amount: request.fixedTipAmount,
+        // Signature
+        signature_required: request.promptForSignature ?? false,
+        // Metadata
+        metadata: {
+          order_id: request.orderId,
+          ...request.metadata,
+        },
+      }
+
+      // Initiate transaction on device
+      const response = await this.client.post(
+        '/api/v1/transactions',
+        skyTabRequest
+      )
+
+      const transactionData = response.data
+
+      // Poll for transaction result
+      // SkyTab typically requires polling until the transaction completes
+      const result = await this.pollTransactionStatus(
+        transactionData.transaction_id || transactionId,
+        request.amount,
+        request.signal,
+        request.onStatusChange
+      )
+
+      return result
+    } catch (error) {
+      logger.error(
+        {
+          error,
+          terminalId: this.terminalId,
+          deviceId: this.deviceId,
+          transactionId,
+        },
+        'SkyTab payment failed'
+      )
+
+      if (axios.isAxiosError(error)) {
+        if (error.code === 'ECONNREFUSED' || error.code === 'ETIMEDOUT') {
+          throw new TerminalOfflineError(this.terminalId)
+        }
+        if (error.code === 'ECONNABORTED') {
+          throw new TerminalTimeoutError(this.terminalId)
+        }
+      }
+
+      // Polling timed out or was cancelled
+      if (error instanceof TerminalError) {
+        throw error
+      }
+
+      throw new TerminalError(
+        `SkyTab payment failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.terminalId
+      )
+    }
+  }
+
   /**
    * Poll transaction status until completion
    */
   private async pollTransactionStatus(
     transactionId: string,
     expectedAmount: number,
+    signal?: AbortSignal,
+    onStatusChange?: (status: TransactionStatus['status']) => void,
     maxAttempts: number = 60,
-    intervalMs: number = 2000
+    intervalMs: number = this.config.pollIntervalMs ?? 2000
   ): Promise<PaymentResult> {
+    let lastStatus: TransactionStatus['status'] = 'pending'
+
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
       await this.sleep(intervalMs)
 
+      // Cancelled on our side; whoever cancelled reconciles the device result
+      if (signal?.aborted) {
+        throw new TerminalError('Transaction was cancelled', this.terminalId)
+      }
+
       const status = await this.getStatus(transactionId)
 
+      if (status.status !== lastStatus) {
+        lastStatus = status.status
+        onStatusChange?.(status.status)
+      }
+
       // Check if transaction is complete
       if (
         status.status === 'approved' ||
@@ -419,17 +563,18 @@ export class SkyTabAdapter implements TerminalClient {
    */
   private mapStatus(
     status: string
-  ): 'pending' | 'approved' | 'declined' | 'cancelled' | 'timeout' | 'error' {
-    const statusMap: Record<string, typeof status> = {
+  ): TransactionStatus['status'] {
+    const statusMap: Record<string, TransactionStatus['status']> = {
       [SkyTabStatus.PENDING]: 'pending',
-      [SkyTabStatus.PROCESSING]: 'pending',
+      [SkyTabStatus.PROCESSING]: 'processing', // Card presented, authorizing
       [SkyTabStatus.APPROVED]: 'approved',
       [SkyTabStatus.DECLINED]: 'declined',
       [SkyTabStatus.CANCELLED]: 'cancelled',
+      [SkyTabStatus.VOIDED]: 'cancelled',
       [SkyTabStatus.ERROR]: 'error',
     }
 
-    return (statusMap[status] as any) || 'error'
+    return statusMap[status] || 'error'
   }
 
   /**
@@ -462,17 +607,21 @@ export class SkyTabAdapter implements TerminalClient {
 
 /**
  * Create SkyTab adapter from configuration
+ * Per-terminal overrides win; SKYTAB_* env vars fill in anything not overridden
  */
 export function createSkyTabAdapter(
   terminalId: string,
-  deviceId: string
+  deviceId: string,
+  overrides: Partial<SkyTabConfig> = {}
 ): SkyTabAdapter {
   const config: SkyTabConfig = {
     enabled: process.env.SKYTAB_ENABLED === 'true',
-    apiUrl: process.env.SKYTAB_API_URL || 'https://api.skytab.com',
-    apiKey: process.env.SKYTAB_API_KEY || '',
-    merchantId: process.env.SKYTAB_MERCHANT_ID || '',
-    timeout: parseInt(process.env.SKYTAB_TIMEOUT_MS || '60000', 10),
+    apiUrl: overrides.apiUrl ?? (process.env.SKYTAB_API_URL || 'https://api.skytab.com'),
+    apiKey: overrides.apiKey ?? (process.env.SKYTAB_API_KEY || ''),
+    merchantId: overrides.merchantId ?? (process.env.SKYTAB_MERCHANT_ID || ''),
+    timeout: overrides.timeout ?? parseInt(process.env.SKYTAB_TIMEOUT_MS || '60000', 10),
+    pollIntervalMs:
+      overrides.pollIntervalMs ?? parseInt(process.env.SKYTAB_POLL_INTERVAL_MS || '2000', 10),
   }
 
   if (!config.enabled) {
@@ -16,11 +16,15 @@ import type {
   TransactionStatus,
   RefundRequest,
   RefundResult,
+  TerminalCaptureRequest,
+  VoidResult,
   TerminalInfo,
   UTGConfig,
   EntryMode,
+  SAFForwardResult,
 } from '../types'
 import {
+  InvalidRequestError,
   TerminalError,
   TerminalOfflineError,
   TerminalTimeoutError,
@@ -37,6 +41,8 @@ enum UTGTransactionType {
   CAPTURE = 'Capture',
   VOID = 'Void',
   REFUND = 'Refund',
+  TIP_ADJUST = 'TipAdjust',
+  SAF_FORWARD = 'SAFForward',
   STATUS = 'Status',
 }
 
@@ -47,6 +53,7 @@ enum UTGTransactionType {
 const UTG_APPROVED_CODE = '00'
 const UTG_TIMEOUT_CODE = 'TO'
 const UTG_CANCELLED_CODE = 'CA'
+const UTG_PENDING_CODE = 'PD' // Status check: still waiting on the customer or host
 
 export class UTGAdapter implements TerminalClient {
   private client: AxiosInstance
@@ -84,65 +91,91 @@ export class UTGAdapter implements TerminalClient {
    * Start a payment transaction on the terminal
    */
   async startPayment(request: StartPaymentRequest): Promise<PaymentResult> {
-    const transactionId = nanoid()
+    return this.startCardTransaction(UTGTransactionType.SALE, request)
+  }
+
+  /**
+   * Authorize a card on the terminal; funds are held until capture
+   */
+  async authorize(request: StartPaymentRequest): Promise<PaymentResult> {
+    return this.startCardTransaction(UTGTransactionType.AUTH, request)
+  }
+
+  /**
+   * Capture a prior authorization (with tip), or raise it incrementally
+   * Incremental authorization needs enableIncrementalAuth, set once its
+   * fields are checked against the UTG spec
+   */
+  async capture(request: TerminalCaptureRequest): Promise<PaymentResult> {
+    const final = request.final ?? true
+
+    if (!final && !this.config.enableIncrementalAuth) {
+      throw new InvalidRequestError('Incremental authorization is not enabled for this UTG terminal')
+    }
 
     try {
+      const response = await this.client.post('/api/transaction', {
+        TransactionType: final ? UTGTransactionType.CAPTURE : UTGTransactionType.AUTH,
+        ApiTerminalId: this.config.apiTerminalId,
+        TransactionId: nanoid(),
+        OriginalTransactionId: request.transactionId,
+        Amount: this.formatAmount(request.amount),
+        TipAmount: request.tipAmount !== undefined
+          ? this.formatAmount(request.tipAmount)
+          : undefined,
+        Currency: request.currency.toUpperCase(),
+        Incremental: !final,
+      })
+
+      const result = this.parsePaymentResponse(response.data, request.transactionId)
+
       logger.info(
         {
-          terminalId: this.terminalId,
-          transactionId,
+          transactionId: request.transactionId,
+          approved: result.approved,
           amount: request.amount,
+          final,
         },
-        'Starting UTG payment'
+        final ? 'UTG capture processed' : 'UTG incremental authorization processed'
       )
 
-      // Build UTG request
-      // TODO: Adjust this payload structure to match your UTG API spec
-      const utgRequest = {
-        TransactionType: UTGTransactionType.SALE,
+      return result
+    } catch (error) {
+      logger.error({ error, request }, 'UTG capture failed')
+      throw new TerminalError(
+        `UTG capture failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.terminalId
+      )
+    }
+  }
+
+  /**
+   * Void an approved authorization or sale before the batch settles
+   */
+  async void(transactionId: string): Promise<VoidResult> {
+    try {
+      const response = await this.client.post('/api/transaction', {
+        TransactionType: UTGTransactionType.VOID,
         ApiTerminalId: this.config.apiTerminalId,
-        TransactionId: transactionId,
-        Amount: this.formatAmount(request.amount),
-        Currency: request.currency.toUpperCase(),
-        // Tipping
-        TipMode: request.tipMode === 'prompt' ? 'Prompt' : 'None',
-        TipAmount: request.fixedTipAmount
-          ? this.formatAmount(request.fixedTipAmount)
-          : undefined,
-        // Additional options
-        PromptForSignature: request.promptForSignature ?? false,
-        // Metadata
-        InvoiceNumber: request.orderId,
-        Metadata: request.metadata,
-      }
+        TransactionId: nanoid(),
+        OriginalTransactionId: transactionId,
+      })
 
-      // Send transaction to UTG
-      // TODO: Verify the exact UTG endpoint path
-      const response = await this.client.post('/api/transaction', utgRequest)
+      const data = response.data
+      const voided = data.ResponseCode === UTG_APPROVED_CODE
 
-      // Parse UTG response
-      return this.parsePaymentResponse(response.data, transactionId)
-    } catch (error) {
-      logger.error(
-        {
-          error,
-          terminalId: this.terminalId,
-          transactionId,
-        },
-        'UTG payment failed'
-      )
+      logger.info({ transactionId, voided }, 'UTG void processed')
 
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNREFUSED' || error.code === 'ETIMEDOUT') {
-          throw new TerminalOfflineError(this.terminalId)
-        }
-        if (error.code === 'ECONNABORTED') {
-          throw new TerminalTimeoutError(this.terminalId)
-        }
+      return {
+        voided,
+        responseCode: data.ResponseCode,
+        responseMessage: data.ResponseMessage,
+        error: voided ? undefined : data.ResponseMessage,
       }
-
+    } catch (error) {
+      logger.error({ error, transactionId }, 'UTG void failed')
       throw new TerminalError(
-        `UTG payment failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        `UTG void failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         this.terminalId
       )
     }
@@ -327,6 +360,163 @@ export class UTGAdapter implements TerminalClient {
     }
   }
 
+  /**
+   * Replace the tip on an approved sale before the batch settles
+   * Needs enableTipAdjust, set once its fields are checked against the UTG spec
+   */
+  async adjustTip(transactionId: string, tipAmount: number): Promise<PaymentResult> {
+    if (!this.config.enableTipAdjust) {
+      throw new InvalidRequestError('Tip adjustment is not enabled for this UTG terminal')
+    }
+
+    try {
+      const response = await this.client.post('/api/transaction', {
+        TransactionType: UTGTransactionType.TIP_ADJUST,
+        ApiTerminalId: this.config.apiTerminalId,
+        TransactionId: nanoid(),
+        OriginalTransactionId: transactionId,
+        TipAmount: this.formatAmount(tipAmount),
+      })
+
+      const result = this.parsePaymentResponse(response.data, transactionId)
+
+      logger.info(
+        { transactionId, approved: result.approved, tipAmount },
+        'UTG tip adjust processed'
+      )
+
+      return result
+    } catch (error) {
+      logger.error({ error, transactionId }, 'UTG tip adjust failed')
+      throw new TerminalError(
+        `UTG tip adjust failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.terminalId
+      )
+    }
+  }
+
+  /**
+   * Forward transactions the terminal approved offline to Shift4
+   * Items still pending (e.g. WAN is still down) are left in the terminal's queue
+   * Only available with enableSAF, which covers the SAF message format
+   */
+  async forwardSAF(): Promise<SAFForwardResult> {
+    if (!this.config.enableSAF) {
+      throw new InvalidRequestError('Store-and-forward is not enabled for this UTG terminal')
+    }
+
+    try {
+      const response = await this.client.post('/api/saf/forward', {
+        TransactionType: UTGTransactionType.SAF_FORWARD,
+        ApiTerminalId: this.config.apiTerminalId,
+      })
+
+      const items = (response.data.Transactions || []).map((item: any) => ({
+        transactionId: item.TransactionId,
+        approved: item.ResponseCode === UTG_APPROVED_CODE,
+        amount: this.parseAmount(item.TotalAmount || item.Amount),
+        authCode: item.AuthCode,
+        responseCode: item.ResponseCode,
+        responseMessage: item.ResponseMessage,
+      }))
+
+      logger.info(
+        { terminalId: this.terminalId, forwarded: items.length },
+        'UTG SAF queue forwarded'
+      )
+
+      return {
+        forwarded: items.length,
+        items,
+      }
+    } catch (error) {
+      logger.error({ error, terminalId: this.terminalId }, 'UTG SAF forward failed')
+      throw new TerminalError(
+        `UTG SAF forward failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.terminalId
+      )
+    }
+  }
+
+  /**
+   * Run a card-present transaction (sale or auth) on the terminal
+   */
+  private async startCardTransaction(
+    transactionType: UTGTransactionType,
+    request: StartPaymentRequest
+  ): Promise<PaymentResult> {
+    const transactionId = request.transactionId || nanoid()
+
+    try {
+      logger.info(
+        {
+          terminalId: this.terminalId,
+          transactionId,
+          transactionType,
+          amount: request.amount,
+        },
+        'Starting UTG payment'
+      )
+
+      // Build UTG request
+      // TODO: Adjust this payload structure to match your UTG API spec
+      const utgRequest = {
+        TransactionType: transactionType,
+        ApiTerminalId: this.config.apiTerminalId,
+        TransactionId: transactionId,
+        Amount: this.formatAmount(request.amount),
+        Currency: request.currency.toUpperCase(),
+        // Tipping
+        TipMode: request.tipMode === 'prompt' ? 'Prompt' : 'None',
+        TipAmount: request.fixedTipAmount
+          ? this.formatAmount(request.fixedTipAmount)
+          : undefined,
+        // Additional options
+        PromptForSignature: request.promptForSignature ?? false,
+        // Store-and-forward: terminal may approve offline up to the floor limit
+        SAFAllowed: this.isSAFAllowed(request.amount),
+        SAFFloorLimit: this.config.enableSAF && this.config.safFloorLimit !== undefined
+          ? this.formatAmount(this.config.safFloorLimit)
+          : undefined,
+        // Metadata
+        InvoiceNumber: request.orderId,
+        Metadata: request.metadata,
+      }
+
+      // Send transaction to UTG
+      // TODO: Verify the exact UTG endpoint path
+      const response = request.signal
+        ? await this.client.post('/api/transaction', utgRequest, { signal: request.signal })
+        : await this.client.post('/api/transaction', utgRequest)
+
+      // Parse UTG response
+      return this.parsePaymentResponse(response.data, transactionId)
+    } catch (error) {
+      logger.error(
+        {
+          error,
+          terminalId: this.terminalId,
+          transactionId,
+        },
+        'UTG payment failed'
+      )
+
+      if (axios.isAxiosError(error)) {
+        if (error.code === 'ECONNREFUSED' || error.code === 'ETIMEDOUT') {
+          throw new TerminalOfflineError(this.terminalId)
+        }
+        if (error.code === 'ECONNABORTED') {
+          throw new TerminalTimeoutError(this.terminalId)
+        }
+      }
+
+      throw new TerminalError(
+        `UTG payment failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.terminalId
+      )
+    }
+  }
+
   /**
    * Parse UTG payment response into standard PaymentResult
    */
@@ -360,9 +550,21 @@ export class UTGAdapter implements TerminalClient {
       // Error (if not approved)
       error: approved ? undefined : data.ResponseMessage,
       errorCode: approved ? undefined : data.ResponseCode,
+
+      // Store-and-forward
+      storedOffline: approved && data.StoredOffline === true ? true : undefined,
     }
   }
 
+  /**
+   * Whether the terminal may approve this amount offline if Shift4 is unreachable
+   * Without a floor limit nothing is approved offline, rather than any amount
+   */
+  private isSAFAllowed(amount: number): boolean {
+    if (!this.config.enableSAF || this.config.safFloorLimit === undefined) return false
+    return amount <= this.config.safFloorLimit
+  }
+
   /**
    * Map UTG status code to standard status
    */
@@ -372,6 +574,7 @@ export class UTGAdapter implements TerminalClient {
     if (responseCode === UTG_APPROVED_CODE) return 'approved'
     if (responseCode === UTG_CANCELLED_CODE) return 'cancelled'
     if (responseCode === UTG_TIMEOUT_CODE) return 'timeout'
+    if (responseCode === UTG_PENDING_CODE) return 'pending'
     // TODO: Add more response code mappings
     return 'declined'
   }
@@ -411,16 +614,29 @@ export class UTGAdapter implements TerminalClient {
 
 /**
  * Create UTG adapter from configuration
+ * Per-terminal overrides win; UTG_* env vars fill in anything not overridden
  */
-export function createUTGAdapter(terminalId: string): UTGAdapter {
+export function createUTGAdapter(
+  terminalId: string,
+  overrides: Partial<UTGConfig> = {}
+): UTGAdapter {
   const config: UTGConfig = {
     enabled: process.env.UTG_ENABLED === 'true',
-    host: process.env.UTG_HOST || 'localhost',
-    port: parseInt(process.env.UTG_PORT || '8333', 10),
-    apiTerminalId: process.env.UTG_API_TERMINAL_ID || '',
-    timeout: parseInt(process.env.UTG_TIMEOUT_MS || '60000', 10),
-    retryAttempts: parseInt(process.env.UTG_RETRY_ATTEMPTS || '2', 10),
-    enableSAF: process.env.UTG_ENABLE_SAF === 'true',
+    host: overrides.host ?? (process.env.UTG_HOST || 'localhost'),
+    port: overrides.port ?? parseInt(process.env.UTG_PORT || '8333', 10),
+    apiTerminalId: overrides.apiTerminalId ?? (process.env.UTG_API_TERMINAL_ID || ''),
+    timeout: overrides.timeout ?? parseInt(process.env.UTG_TIMEOUT_MS || '60000', 10),
+    retryAttempts:
+      overrides.retryAttempts ?? parseInt(process.env.UTG_RETRY_ATTEMPTS || '2', 10),
+    enableTipAdjust: overrides.enableTipAdjust ?? process.env.UTG_ENABLE_TIP_ADJUST === 'true',
+    enableIncrementalAuth:
+      overrides.enableIncrementalAuth ?? process.env.UTG_ENABLE_INCREMENTAL_AUTH === 'true',
+    enableSAF: overrides.enableSAF ?? process.env.UTG_ENABLE_SAF === 'true',
+    safFloorLimit:
+      overrides.safFloorLimit ??
+      (process.env.UTG_SAF_FLOOR_LIMIT
+        ? parseInt(process.env.UTG_SAF_FLOOR_LIMIT, 10)
+        : undefined),
   }
 
   if (!config.enabled) {
@@ -431,5 +647,9 @@ export function createUTGAdapter(terminalId: string): UTGAdapter {
     throw new Error('UTG_API_TERMINAL_ID must be set')
   }
 
+  if (config.enableSAF && config.safFloorLimit === undefined) {
+    logger.warn({ terminalId }, 'UTG SAF enabled without a floor limit; offline approval is off')
+  }
+
   return new UTGAdapter(config, terminalId)
 }
@@ -0,0 +1,54 @@
+/**
+ * Card expiry
+ * Classifies saved cards as valid, expiring soon or expired
+ *
+ * A card is good through the last day of its expiry month, so it expires at
+ * the start of the following month (UTC).
+ */
+
+import type { CardExpiryStatus } from '@prisma/client'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Cards expiring within this many days are flagged EXPIRING_SOON */
+export const CARD_EXPIRY_WARNING_DAYS = parseInt(process.env.CARD_EXPIRY_WARNING_DAYS || '30', 10)
+
+/**
+ * The moment a card stops working
+ */
+export function getCardExpiresAt(expMonth: number, expYear: number): Date {
+  // Month is 1-based, so this is the first day of the month after expiry
+  return new Date(Date.UTC(expYear, expMonth, 1))
+}
+
+export function getCardExpiryStatus(
+  expMonth: number,
+  expYear: number,
+  now: Date = new Date(),
+  warningDays: number = CARD_EXPIRY_WARNING_DAYS
+): CardExpiryStatus {
+  const expiresAt = getCardExpiresAt(expMonth, expYear).getTime()
+
+  if (expiresAt <= now.getTime()) {
+    return 'EXPIRED'
+  }
+
+  return expiresAt <= now.getTime() + warningDays * DAY_MS ? 'EXPIRING_SOON' : 'VALID'
+}
+
+/**
+ * Latest expiry month that is expired or expiring soon, for querying cards
+ * with an expiry on or before it
+ */
+export function getExpiryCutoff(
+  now: Date = new Date(),
+  warningDays: number = CARD_EXPIRY_WARNING_DAYS
+): { expMonth: number; expYear: number } {
+  const cutoff = new Date(now.getTime() + warningDays * DAY_MS)
+
+  // The month before the cutoff's month has ended by the cutoff
+  const month = cutoff.getUTCMonth() // 0-based, so this is already the month before
+  return month === 0
+    ? { expMonth: 12, expYear: cutoff.getUTCFullYear() - 1 }
+    : { expMonth: month, expYear: cutoff.getUTCFullYear() }
+}
@@ -6,6 +6,7 @@ export class PaymentError extends Error {
   public readonly code: string
   public readonly statusCode: number
   public readonly retryable: boolean
+  public details?: Record<string, unknown> // Extra context returned to API clients
 
   constructor(
     message: string,
@@ -86,6 +87,20 @@ export class TerminalTimeoutError extends TerminalError {
   }
 }
 
+export class TerminalBusyError extends PaymentError {
+  public readonly terminalId: string
+  public readonly activeTransactionId?: string
+
+  constructor(terminalId: string, activeTransactionId?: string) {
+    super(`Terminal ${terminalId} is busy with another transaction`, 'TERMINAL_BUSY', 409, true)
+    this.name = 'TerminalBusyError'
+    this.terminalId = terminalId
+    this.activeTransactionId = activeTransactionId
+    this.details = { terminalId, activeTransactionId }
+    Object.setPrototypeOf(this, TerminalBusyError.prototype)
+  }
+}
+
 export class IdempotencyError extends PaymentError {
   constructor(message: string) {
     super(message, 'IDEMPOTENCY_ERROR', 409, false)
@@ -105,6 +120,14 @@ export class RateLimitError extends PaymentError {
   }
 }
 
+export class WebhookSignatureError extends PaymentError {
+  constructor(message: string) {
+    super(message, 'INVALID_SIGNATURE', 401, false)
+    this.name = 'WebhookSignatureError'
+    Object.setPrototypeOf(this, WebhookSignatureError.prototype)
+  }
+}
+
 /**
  * Utility to determine if an error is retryable
  */
@@ -6,6 +6,52 @@
 export * from './types'
 export * from './errors'
 export { logger, createLogger, paymentLogger } from './logger'
+export {
+  WEBHOOK_SIGNATURE_HEADER,
+  verifyWebhookSignature,
+  computeWebhookSignature,
+  buildWebhookSignatureHeader,
+} from './webhook-signature'
 export { Shift4Adapter, createShift4Adapter } from './adapters/shift4-adapter'
 export { UTGAdapter, createUTGAdapter } from './adapters/utg-adapter'
 export { SkyTabAdapter, createSkyTabAdapter } from './adapters/skytab-adapter'
+export { parseTerminalConfig } from './terminal-config'
+export type { UTGTerminalConfig, SkyTabTerminalConfig } from './terminal-config'
+export {
+  createTerminalClient,
+  createUTGClient,
+  createSkyTabClient,
+  registerTerminalAdapter,
+  getRegisteredTerminalTypes,
+} from './terminal-factory'
+export type { TerminalRecord, TerminalAdapterFactory } from './terminal-factory'
+export {
+  canTransition,
+  isFinalTransactionStatus,
+  getResultStatus,
+  getErrorStatus,
+  getPhaseDurations,
+} from './terminal-lifecycle'
+export type { TransactionTimestamps, PhaseDurations } from './terminal-lifecycle'
+export {
+  addInterval,
+  calculateProration,
+  getNextRetryAt,
+  getUnusedFraction,
+  SUBSCRIPTION_RETRY_DAYS,
+} from './subscription-billing'
+export type { PlanPricing, Proration } from './subscription-billing'
+export {
+  CARD_EXPIRY_WARNING_DAYS,
+  getCardExpiresAt,
+  getCardExpiryStatus,
+  getExpiryCutoff,
+} from './card-expiry'
+export {
+  isLiabilityShifted,
+  isThreeDSecureDecline,
+  parseThreeDSecureThresholds,
+  requiresThreeDSecure,
+  THREE_D_SECURE_THRESHOLDS,
+} from './three-d-secure'
+export type { ThreeDSecureThresholds } from './three-d-secure'
@@ -66,10 +66,18 @@ export const paymentLogger = {
     logger.info({ chargeId, amount, currency }, 'Charge created')
   },
 
+  chargeAuthorized: (chargeId: string, amount: number, currency: string) => {
+    logger.info({ chargeId, amount, currency }, 'Charge authorized')
+  },
+
   chargeCaptured: (chargeId: string, amount: number) => {
     logger.info({ chargeId, amount }, 'Charge captured')
   },
 
+  chargeVoided: (chargeId: string, reason?: string) => {
+    logger.info({ chargeId, reason }, 'Charge voided')
+  },
+
   chargeFailed: (chargeId: string, error: string, code?: string) => {
     logger.error({ chargeId, error, code }, 'Charge failed')
   },
@@ -78,6 +86,27 @@ export const paymentLogger = {
     logger.info({ refundId, chargeId, amount }, 'Refund created')
   },
 
+  paymentMethodSaved: (customerId: string, cardBrand: string, cardLast4: string) => {
+    logger.info({ customerId, cardBrand, cardLast4 }, 'Payment method saved')
+  },
+
+  subscriptionRenewed: (subscriptionId: string, orderId: string | null, amount: number) => {
+    logger.info({ subscriptionId, orderId, amount }, 'Subscription renewed')
+  },
+
+  subscriptionPaymentFailed: (
+    subscriptionId: string,
+    failedAttempts: number,
+    nextRetryAt: Date | null,
+    error?: string
+  ) => {
+    logger.warn({ subscriptionId, failedAttempts, nextRetryAt, error }, 'Subscription payment failed')
+  },
+
+  subscriptionCancelled: (subscriptionId: string, reason: string) => {
+    logger.info({ subscriptionId, reason }, 'Subscription cancelled')
+  },
+
   terminalPaymentStarted: (terminalId: string, amount: number, transactionId: string) => {
     logger.info({ terminalId, amount, transactionId }, 'Terminal payment started')
   },
@@ -86,6 +115,22 @@ export const paymentLogger = {
     logger.info({ terminalId, transactionId, approved }, 'Terminal payment completed')
   },
 
+  terminalPaymentCancelled: (terminalId: string, transactionId: string, reason: string) => {
+    logger.info({ terminalId, transactionId, reason }, 'Terminal payment cancelled')
+  },
+
+  terminalPaymentStoredOffline: (terminalId: string, transactionId: string, amount: number) => {
+    logger.warn({ terminalId, transactionId, amount }, 'Terminal payment approved offline (SAF)')
+  },
+
+  safDeclined: (terminalId: string, transactionId: string, amount: number, reason?: string) => {
+    logger.error({ terminalId, transactionId, amount, reason }, 'SAF transaction declined on forward')
+  },
+
+  tipAdjusted: (paymentId: string, previousTipAmount: number, tipAmount: number) => {
+    logger.info({ paymentId, previousTipAmount, tipAmount }, 'Tip adjusted')
+  },
+
   terminalError: (terminalId: string, error: string) => {
     logger.error({ terminalId, error }, 'Terminal error')
   },
@@ -101,4 +146,21 @@ export const paymentLogger = {
   webhookFailed: (eventId: string, eventType: string, error: string) => {
     logger.error({ eventId, eventType, error }, 'Webhook processing failed')
   },
+
+  webhookRetryScheduled: (
+    eventId: string,
+    eventType: string,
+    attempts: number,
+    nextAttemptAt: Date
+  ) => {
+    logger.warn({ eventId, eventType, attempts, nextAttemptAt }, 'Webhook retry scheduled')
+  },
+
+  webhookDeadLettered: (eventId: string, eventType: string, attempts: number, error: string) => {
+    logger.error({ eventId, eventType, attempts, error }, 'Webhook moved to dead letter')
+  },
+
+  webhookSignatureInvalid: (reason: string, ipAddress?: string) => {
+    logger.warn({ reason, ipAddress }, 'Webhook signature invalid')
+  },
 }
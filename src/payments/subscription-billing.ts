@@ -0,0 +1,117 @@
+/**
+ * Subscription billing math
+ * Billing periods, plan-change proration and the dunning retry schedule
+ *
+ * Monthly and yearly periods keep to the day of the billing cycle anchor, so
+ * a subscription started on Jan 31 renews Feb 28 (or 29), then Mar 31.
+ */
+
+import type { BillingInterval } from '@prisma/client'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Days to wait after each failed renewal before retrying; once they run
+ * out the subscription is cancelled
+ */
+export const SUBSCRIPTION_RETRY_DAYS = (process.env.SUBSCRIPTION_RETRY_DAYS || '1,3,5')
+  .split(',')
+  .map((days) => parseInt(days, 10))
+  .filter((days) => days > 0)
+
+export interface PlanPricing {
+  amount: number
+  interval: BillingInterval
+  intervalCount: number
+}
+
+export interface Proration {
+  /** Unused time on the current plan, in smallest unit */
+  credit: number
+  /** New plan from now on, in smallest unit */
+  charge: number
+  /** The plans bill on different cycles, so a new period starts now */
+  resetPeriod: boolean
+}
+
+/**
+ * Add billing intervals to a date
+ *
+ * `anchorDay` is the day of the month renewals fall on; months too short for
+ * it end on their last day instead.
+ */
+export function addInterval(
+  date: Date,
+  interval: BillingInterval,
+  count: number = 1,
+  anchorDay: number = date.getUTCDate()
+): Date {
+  switch (interval) {
+    case 'DAY':
+      return new Date(date.getTime() + count * DAY_MS)
+    case 'WEEK':
+      return new Date(date.getTime() + count * 7 * DAY_MS)
+    case 'MONTH':
+    case 'YEAR': {
+      const months = interval === 'YEAR' ? count * 12 : count
+      const result = new Date(date)
+      result.setUTCDate(1)
+      result.setUTCMonth(result.getUTCMonth() + months)
+      result.setUTCDate(Math.min(anchorDay, daysInMonth(result)))
+      return result
+    }
+  }
+}
+
+/**
+ * Share of a billing period still ahead of `now`, from 0 to 1
+ */
+export function getUnusedFraction(periodStart: Date, periodEnd: Date, now: Date): number {
+  const length = periodEnd.getTime() - periodStart.getTime()
+  if (length <= 0) {
+    return 0
+  }
+
+  const remaining = (periodEnd.getTime() - now.getTime()) / length
+  return Math.min(Math.max(remaining, 0), 1)
+}
+
+/**
+ * Credit and charge for switching plans part way through a period
+ *
+ * Plans on the same cycle keep the current period and the new plan is charged
+ * for the time left in it. Otherwise the new plan starts a full period now.
+ */
+export function calculateProration(
+  from: PlanPricing,
+  to: PlanPricing,
+  periodStart: Date,
+  periodEnd: Date,
+  now: Date = new Date()
+): Proration {
+  const unused = getUnusedFraction(periodStart, periodEnd, now)
+  const resetPeriod = from.interval !== to.interval || from.intervalCount !== to.intervalCount
+
+  return {
+    credit: Math.round(from.amount * unused),
+    charge: resetPeriod ? to.amount : Math.round(to.amount * unused),
+    resetPeriod,
+  }
+}
+
+/**
+ * When to retry a renewal that has now failed `failedAttempts` times,
+ * or null when retries are exhausted
+ */
+export function getNextRetryAt(
+  failedAttempts: number,
+  from: Date = new Date(),
+  schedule: number[] = SUBSCRIPTION_RETRY_DAYS
+): Date | null {
+  const days = schedule[failedAttempts - 1]
+  return days ? new Date(from.getTime() + days * DAY_MS) : null
+}
+
+function daysInMonth(date: Date): number {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate()
+}
@@ -0,0 +1,89 @@
+/**
+ * Per-terminal configuration
+ * Validates the type-specific `Terminal.config` JSON
+ *
+ * Configs written before validation used `timeout` (now `timeoutMs`) and a few
+ * keys nothing reads; those are still accepted so existing terminals keep working.
+ */
+
+import { z } from 'zod'
+import { InvalidRequestError } from './errors'
+
+export type TerminalType = 'UTG' | 'SKYTAB'
+
+const sharedConfigShape = {
+  timeoutMs: z.number().int().positive().optional(),
+  maxTipPercent: z.number().positive().optional(), // Cap for tip adjustments
+}
+
+const utgTerminalConfigSchema = z
+  .object({
+    ...sharedConfigShape,
+    retryAttempts: z.number().int().min(0).optional(),
+    enableSAF: z.boolean().optional(),
+    safFloorLimit: z.number().int().min(0).optional(), // Cents
+  })
+  .strict()
+
+const skyTabTerminalConfigSchema = z
+  .object({
+    ...sharedConfigShape,
+    apiUrl: z.string().url().optional(),
+    merchantId: z.string().min(1).optional(),
+  })
+  .strict()
+
+/** Keys from configs written before validation, dropped when parsing */
+const LEGACY_KEYS = ['timeout', 'enableTipping', 'deviceId', 'enableSignature']
+
+export type UTGTerminalConfig = z.infer<typeof utgTerminalConfigSchema>
+export type SkyTabTerminalConfig = z.infer<typeof skyTabTerminalConfigSchema>
+
+/**
+ * Validate a terminal's config JSON for its type
+ * Missing config is treated as empty (all env defaults)
+ */
+export function parseTerminalConfig(type: 'UTG', config: unknown): UTGTerminalConfig
+export function parseTerminalConfig(type: 'SKYTAB', config: unknown): SkyTabTerminalConfig
+export function parseTerminalConfig(
+  type: TerminalType,
+  config: unknown
+): UTGTerminalConfig | SkyTabTerminalConfig
+export function parseTerminalConfig(
+  type: TerminalType,
+  config: unknown
+): UTGTerminalConfig | SkyTabTerminalConfig {
+  const schema = type === 'UTG' ? utgTerminalConfigSchema : skyTabTerminalConfigSchema
+  const result = schema.safeParse(normalizeLegacyConfig(config ?? {}))
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; ')
+
+    throw new InvalidRequestError(`Invalid ${type} terminal config: ${issues}`)
+  }
+
+  return result.data
+}
+
+/**
+ * Map `timeout` to `timeoutMs` and drop the other legacy keys
+ */
+function normalizeLegacyConfig(config: unknown): unknown {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return config
+  }
+
+  const normalized: Record<string, unknown> = { ...config }
+
+  if (normalized.timeoutMs === undefined && normalized.timeout !== undefined) {
+    normalized.timeoutMs = normalized.timeout
+  }
+
+  for (const key of LEGACY_KEYS) {
+    delete normalized[key]
+  }
+
+  return normalized
+}
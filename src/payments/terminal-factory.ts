@@ -0,0 +1,90 @@
+/**
+ * Terminal client factory
+ * Builds the client for a Terminal row from a registry keyed by terminal type
+ *
+ * Connection details come from the row (ipAddress, port, apiTerminalId) and its
+ * validated config JSON, so each lane talks to its own device. UTG_* and
+ * SKYTAB_* env vars only fill in what the row leaves unset.
+ *
+ * To add a device family, implement TerminalClient and call
+ * registerTerminalAdapter() with a factory for the new type.
+ */
+
+import type { Terminal } from '@prisma/client'
+import type { TerminalClient } from './types'
+import { TerminalError } from './errors'
+import { UTGAdapter, createUTGAdapter } from './adapters/utg-adapter'
+import { SkyTabAdapter, createSkyTabAdapter } from './adapters/skytab-adapter'
+import { parseTerminalConfig } from './terminal-config'
+
+export type TerminalRecord = Pick<
+  Terminal,
+  'id' | 'type' | 'apiTerminalId' | 'ipAddress' | 'port' | 'config'
+>
+
+export type TerminalAdapterFactory = (terminal: TerminalRecord) => TerminalClient
+
+const registry = new Map<string, TerminalAdapterFactory>()
+
+/**
+ * Register (or replace) the client factory for a terminal type
+ */
+export function registerTerminalAdapter(type: string, factory: TerminalAdapterFactory): void {
+  registry.set(type, factory)
+}
+
+/**
+ * Terminal types with a registered adapter
+ */
+export function getRegisteredTerminalTypes(): string[] {
+  return Array.from(registry.keys())
+}
+
+/**
+ * Create the client for any terminal
+ */
+export function createTerminalClient(terminal: TerminalRecord): TerminalClient {
+  const factory = registry.get(terminal.type)
+
+  if (!factory) {
+    throw new TerminalError(
+      `No terminal adapter registered for type ${terminal.type}`,
+      terminal.id
+    )
+  }
+
+  return factory(terminal)
+}
+
+/**
+ * Create a UTG client (for UTG-only operations such as store-and-forward)
+ */
+export function createUTGClient(terminal: TerminalRecord): UTGAdapter {
+  const config = parseTerminalConfig('UTG', terminal.config)
+
+  return createUTGAdapter(terminal.id, {
+    host: terminal.ipAddress ?? undefined,
+    port: terminal.port ?? undefined,
+    apiTerminalId: terminal.apiTerminalId,
+    timeout: config.timeoutMs,
+    retryAttempts: config.retryAttempts,
+    enableSAF: config.enableSAF,
+    safFloorLimit: config.safFloorLimit,
+  })
+}
+
+/**
+ * Create a SkyTab client; apiTerminalId is the SkyTab device ID
+ */
+export function createSkyTabClient(terminal: TerminalRecord): SkyTabAdapter {
+  const config = parseTerminalConfig('SKYTAB', terminal.config)
+
+  return createSkyTabAdapter(terminal.id, terminal.apiTerminalId, {
+    apiUrl: config.apiUrl,
+    merchantId: config.merchantId,
+    timeout: config.timeoutMs,
+  })
+}
+
+registerTerminalAdapter('UTG', createUTGClient)
+registerTerminalAdapter('SKYTAB', createSkyTabClient)
@@ -0,0 +1,106 @@
+/**
+ * Terminal transaction lifecycle
+ * Allowed status transitions and per-phase timing for TerminalTransaction
+ *
+ *   PENDING -> AWAITING_CARD -> APPROVED | DECLINED | CANCELLED | TIMEOUT | ERROR
+ *
+ * Operations that never wait for a card (capture, void, tip adjust) go
+ * straight from PENDING to a final status. Final statuses are never left,
+ * except by an offline (SAF) approval that Shift4 declines when it is
+ * forwarded (src/jobs/saf-forward.ts), which becomes DECLINED.
+ */
+
+import type { TerminalTransactionStatus } from '@prisma/client'
+import type { PaymentResult } from './types'
+import { TerminalTimeoutError } from './errors'
+
+const FINAL_STATUSES: TerminalTransactionStatus[] = [
+  'APPROVED',
+  'DECLINED',
+  'CANCELLED',
+  'TIMEOUT',
+  'ERROR',
+]
+
+const TRANSITIONS: Record<TerminalTransactionStatus, TerminalTransactionStatus[]> = {
+  PENDING: ['AWAITING_CARD', ...FINAL_STATUSES],
+  AWAITING_CARD: FINAL_STATUSES,
+  APPROVED: [],
+  DECLINED: [],
+  CANCELLED: [],
+  TIMEOUT: [],
+  ERROR: [],
+}
+
+export function isFinalTransactionStatus(status: TerminalTransactionStatus): boolean {
+  return FINAL_STATUSES.includes(status)
+}
+
+export function canTransition(
+  from: TerminalTransactionStatus,
+  to: TerminalTransactionStatus
+): boolean {
+  return TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Final status for a device result
+ */
+export function getResultStatus(result: PaymentResult): TerminalTransactionStatus {
+  if (result.approved) {
+    return 'APPROVED'
+  }
+
+  // UTG response codes, or the SkyTab status carried in errorCode
+  switch (result.errorCode || result.responseCode) {
+    case 'CA':
+    case 'CANCELLED':
+      return 'CANCELLED'
+    case 'TO':
+    case 'TIMEOUT':
+      return 'TIMEOUT'
+    case 'ERROR':
+      return 'ERROR'
+    default:
+      return 'DECLINED'
+  }
+}
+
+/**
+ * Final status for a device call that threw
+ */
+export function getErrorStatus(error: unknown): TerminalTransactionStatus {
+  return error instanceof TerminalTimeoutError ? 'TIMEOUT' : 'ERROR'
+}
+
+export interface TransactionTimestamps {
+  startedAt: Date
+  awaitingCardAt?: Date | null
+  cardPresentedAt?: Date | null
+}
+
+export interface PhaseDurations {
+  durationMs: number
+  queueMs: number | null
+  customerMs: number | null
+  authorizationMs: number | null
+}
+
+/**
+ * Split a completed transaction's time into phases
+ * A phase is null when the transaction never reached it
+ */
+export function getPhaseDurations(
+  timestamps: TransactionTimestamps,
+  completedAt: Date
+): PhaseDurations {
+  const { startedAt, awaitingCardAt, cardPresentedAt } = timestamps
+  const between = (from: Date, to: Date) => Math.max(0, to.getTime() - from.getTime())
+
+  return {
+    durationMs: between(startedAt, completedAt),
+    queueMs: awaitingCardAt ? between(startedAt, awaitingCardAt) : null,
+    customerMs: awaitingCardAt ? between(awaitingCardAt, cardPresentedAt ?? completedAt) : null,
+    authorizationMs: cardPresentedAt ? between(cardPresentedAt, completedAt) : null,
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * 3-D Secure
+ * Decides when an online card payment must be verified by the issuer
+ *
+ * Verification happens in the browser (Shift4.js verifyThreeDSecure), which
+ * returns a new token carrying the outcome. Payments at or above the
+ * threshold for their currency are always verified. Below it, issuers can
+ * still ask for it with a soft decline (common for EU cards under SCA), and
+ * the payment is retried with a verified token.
+ *
+ * THREE_D_SECURE_THRESHOLD is either one amount for every currency ("10000")
+ * or per currency ("usd:10000,eur:5000"), in minor units. A currency without
+ * a threshold, or a threshold of 0, is never forced.
+ */
+
+import type { ThreeDSecureInfo } from './types'
+
+export type ThreeDSecureThresholds = Record<string, number> // Currency (or '*' for all) -> amount
+
+/**
+ * Parse "10000" or "usd:10000,eur:5000"
+ */
+export function parseThreeDSecureThresholds(value: string | undefined): ThreeDSecureThresholds {
+  const thresholds: ThreeDSecureThresholds = {}
+
+  for (const entry of (value || '').split(',')) {
+    const [currency, amount] = entry.includes(':') ? entry.split(':') : ['*', entry]
+    const parsed = parseInt(amount, 10)
+
+    if (currency.trim() && Number.isInteger(parsed) && parsed > 0) {
+      thresholds[currency.trim().toLowerCase()] = parsed
+    }
+  }
+
+  return thresholds
+}
+
+export const THREE_D_SECURE_THRESHOLDS = parseThreeDSecureThresholds(
+  process.env.THREE_D_SECURE_THRESHOLD
+)
+
+/** Decline codes an issuer uses to ask for 3-D Secure */
+const SOFT_DECLINE_CODES = new Set(['authentication_required'])
+
+export function requiresThreeDSecure(
+  amount: number,
+  currency: string,
+  thresholds: ThreeDSecureThresholds = THREE_D_SECURE_THRESHOLDS
+): boolean {
+  const threshold = thresholds[currency.toLowerCase()] ?? thresholds['*']
+  return threshold !== undefined && amount >= threshold
+}
+
+/**
+ * Whether a decline can be retried with a 3-D Secure verified token
+ */
+export function isThreeDSecureDecline(declineCode?: string): boolean {
+  return !!declineCode && SOFT_DECLINE_CODES.has(declineCode)
+}
+
+/**
+ * Whether fraud liability moved to the issuer
+ */
+export function isLiabilityShifted(info?: ThreeDSecureInfo): boolean {
+  return info?.liabilityShift === 'successful'
+}
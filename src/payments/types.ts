@@ -26,6 +26,17 @@ export interface CardDetails {
   funding?: 'credit' | 'debit' | 'prepaid' | 'unknown'
 }
 
+/**
+ * Outcome of 3-D Secure on the token a charge was made with
+ * A successful liability shift moves fraud chargebacks to the issuer
+ */
+export interface ThreeDSecureInfo {
+  enrolled: boolean
+  liabilityShift: 'successful' | 'failed' | 'not_possible'
+  version?: string
+  authenticationFlow?: 'frictionless' | 'challenge'
+}
+
 // ============================================
 // Online Payment Adapter Interface
 // ============================================
@@ -46,11 +57,13 @@ export interface CreateCustomerResponse {
 export interface CreateChargeRequest {
   amount: number
   currency: Currency
-  token: string
-  customerId?: string
+  token?: string // Shift4 token (3-D Secure verified or not), or the ID of a card saved on customerId; omit to charge its default card
+  customerId?: string // Shift4 customer ID
   description?: string
   capture?: boolean
+  requireThreeDSecure?: boolean // Decline unless the token passed 3-D Secure (or the card isn't enrolled)
   metadata?: Record<string, any>
+  idempotencyKey?: string // Sent to Shift4 so a retried request cannot charge twice
 }
 
 export interface CreateChargeResponse {
@@ -60,6 +73,7 @@ export interface CreateChargeResponse {
   status: 'succeeded' | 'pending' | 'failed'
   captured: boolean
   card?: CardDetails
+  threeDSecure?: ThreeDSecureInfo
   created: Date
   failureCode?: string
   failureMessage?: string
@@ -68,6 +82,7 @@ export interface CreateChargeResponse {
 export interface CaptureChargeRequest {
   chargeId: string
   amount?: number
+  idempotencyKey?: string
 }
 
 export interface CaptureChargeResponse {
@@ -76,11 +91,23 @@ export interface CaptureChargeResponse {
   captured: boolean
 }
 
+export interface VoidChargeRequest {
+  chargeId: string
+  reason?: string
+  idempotencyKey?: string
+}
+
+export interface VoidChargeResponse {
+  chargeId: string
+  voided: boolean
+}
+
 export interface CreateRefundRequest {
   chargeId: string
   amount?: number
   reason?: string
   metadata?: Record<string, any>
+  idempotencyKey?: string
 }
 
 export interface CreateRefundResponse {
@@ -101,13 +128,28 @@ export interface SavePaymentMethodResponse {
   card: CardDetails
 }
 
+export interface GetPaymentMethodRequest {
+  customerId: string
+  cardId: string
+}
+
+export interface DeletePaymentMethodRequest {
+  customerId: string
+  cardId: string
+}
+
 export interface OnlinePaymentAdapter {
   createCustomer(request: CreateCustomerRequest): Promise<CreateCustomerResponse>
   createCharge(request: CreateChargeRequest): Promise<CreateChargeResponse>
   captureCharge(request: CaptureChargeRequest): Promise<CaptureChargeResponse>
+  voidCharge(request: VoidChargeRequest): Promise<VoidChargeResponse>
   createRefund(request: CreateRefundRequest): Promise<CreateRefundResponse>
   savePaymentMethod(request: SavePaymentMethodRequest): Promise<SavePaymentMethodResponse>
+  getPaymentMethod(request: GetPaymentMethodRequest): Promise<SavePaymentMethodResponse>
+  deletePaymentMethod(request: DeletePaymentMethodRequest): Promise<void>
   getCharge(chargeId: string): Promise<CreateChargeResponse>
+  getEvent(eventId: string): Promise<WebhookEvent>
+  listEvents(request?: ListEventsRequest): Promise<ListEventsResponse>
 }
 
 // ============================================
@@ -120,6 +162,7 @@ export type EntryMode = 'chip' | 'swipe' | 'contactless' | 'keyed' | 'fallback'
 
 export interface StartPaymentRequest {
   terminalId: string
+  transactionId?: string // Caller's tracking ID; generated if omitted
   amount: number
   currency: Currency
   orderId: string
@@ -127,6 +170,8 @@ export interface StartPaymentRequest {
   fixedTipAmount?: number
   promptForSignature?: boolean
   metadata?: Record<string, any>
+  signal?: AbortSignal // Aborted when the transaction is cancelled; stops waiting for the device
+  onStatusChange?: (status: TransactionStatus['status']) => void // Progress from devices that report it
 }
 
 export interface PaymentResult {
@@ -155,11 +200,14 @@ export interface PaymentResult {
   // Error details
   error?: string
   errorCode?: string
+
+  // Store-and-forward: approved offline, final result arrives when forwarded
+  storedOffline?: boolean
 }
 
 export interface TransactionStatus {
   transactionId: string
-  status: 'pending' | 'approved' | 'declined' | 'cancelled' | 'timeout' | 'error'
+  status: 'pending' | 'processing' | 'approved' | 'declined' | 'cancelled' | 'timeout' | 'error'
   approved?: boolean
   result?: PaymentResult
   error?: string
@@ -182,12 +230,47 @@ export interface RefundResult {
   error?: string
 }
 
+export interface TerminalCaptureRequest {
+  transactionId: string // The original authorization
+  amount: number // New total to authorize/capture, excluding tip
+  currency: Currency
+  tipAmount?: number
+  final?: boolean // false = incremental authorization, keeps the tab open (default true)
+}
+
+export interface VoidResult {
+  voided: boolean
+  responseCode?: string
+  responseMessage?: string
+  error?: string
+}
+
 export interface TerminalClient {
   /**
    * Start a payment transaction on the terminal
    */
   startPayment(request: StartPaymentRequest): Promise<PaymentResult>
 
+  /**
+   * Authorize (pre-auth) a card on the terminal without capturing
+   */
+  authorize(request: StartPaymentRequest): Promise<PaymentResult>
+
+  /**
+   * Capture a prior authorization, or raise it when final is false
+   */
+  capture(request: TerminalCaptureRequest): Promise<PaymentResult>
+
+  /**
+   * Void an approved authorization or sale before settlement
+   */
+  void(transactionId: string): Promise<VoidResult>
+
+  /**
+   * Replace the tip on an approved transaction before the batch settles
+   */
+  adjustTip(transactionId: string, tipAmount: number): Promise<PaymentResult>
+
   /**
    * Get the status of a transaction
    */
@@ -259,6 +342,19 @@ export interface WebhookEvent<T = any> {
   livemode: boolean
 }
 
+export interface ListEventsRequest {
+  limit?: number
+  startingAfterId?: string
+  endingBeforeId?: string
+  createdAfter?: Date
+  createdBefore?: Date
+}
+
+export interface ListEventsResponse {
+  events: WebhookEvent[]
+  hasMore: boolean
+}
+
 // ============================================
 // Configuration
 // ============================================
@@ -268,8 +364,11 @@ export interface Shift4Config {
   secretKey: string
   mode: 'test' | 'live'
   webhookSecret?: string
+  previousWebhookSecret?: string // Still accepted while a secret rotation is in progress
+  webhookToleranceSeconds?: number
   accountId?: string
   apiVersion?: string
+  apiUrl?: string // Defaults to https://api.shift4.com; point at a local simulator in development
 }
 
 export interface UTGConfig {
@@ -279,7 +378,24 @@ export interface UTGConfig {
   apiTerminalId: string
   timeout: number
   retryAttempts: number
+  enableTipAdjust?: boolean // Adjust tips after the sale (POST /payments/{id}/tip)
+  enableIncrementalAuth?: boolean // Raise open authorizations (capture with final: false)
   enableSAF?: boolean
+  safFloorLimit?: number // Largest amount (cents) the terminal may approve offline; required for SAF
+}
+
+export interface SAFForwardItem {
+  transactionId: string
+  approved: boolean
+  amount: number
+  authCode?: string
+  responseCode?: string
+  responseMessage?: string
+}
+
+export interface SAFForwardResult {
+  forwarded: number
+  items: SAFForwardItem[]
 }
 
 export interface SkyTabConfig {
@@ -288,4 +404,5 @@ export interface SkyTabConfig {
   apiKey: string
   merchantId: string
   timeout?: number
+  pollIntervalMs?: number // How often to check a transaction on the device (default 2000)
 }
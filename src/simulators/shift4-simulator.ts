@@ -0,0 +1,881 @@
+/**
+ * Shift4 API simulator
+ * Local stand-in for the Shift4 REST API used by Shift4Adapter
+ *
+ * Covers charges, captures, refunds, customers and their cards, and events.
+ * Point SHIFT4_API_URL at it. Cards come from tokens: the magic tokens below
+ * trigger declines, rate limits, server errors and slow responses, or stand
+ * in for tokens returned by 3-D Secure; any other token is approved as a
+ * Visa ending 4242.
+ *
+ * Each change records an event, as Shift4 does. With a webhook URL set, new
+ * events are POSTed there (signed when a secret is set), so the webhook
+ * receiver and queue run end to end. Control endpoints:
+ *
+ *   GET  /__simulator                         counts and recent events
+ *   POST /__simulator/events                  { "type": "charge.dispute.created", "data": {...} }
+ *   POST /__simulator/events/:id/deliver      (re)send an event to the webhook URL
+ *   POST /__simulator/cards/:id               { "expMonth": 8, "expYear": 2030 } reissue a saved card
+ *   POST /__simulator/reset                   forget everything
+ */
+
+import crypto from 'crypto'
+import http, { IncomingMessage, ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import { buildWebhookSignatureHeader, WEBHOOK_SIGNATURE_HEADER } from '@/payments/webhook-signature'
+import { logger } from '@/payments/logger'
+
+/**
+ * Magic tokens
+ * Declines apply when the card is charged, so a declining card can still
+ * be saved to a customer and fail later (e.g. on renewal)
+ */
+export const SHIFT4_TEST_TOKENS = {
+  visa: 'tok_visa',
+  mastercard: 'tok_mastercard',
+  amex: 'tok_amex',
+  discover: 'tok_discover',
+  declined: 'tok_card_declined',
+  insufficientFunds: 'tok_insufficient_funds',
+  expired: 'tok_expired_card', // Saved with last month's expiry date
+  incorrectCvc: 'tok_incorrect_cvc',
+  threeDSecureRequired: 'tok_3ds_required', // Soft decline asking for 3-D Secure
+  threeDSecureAuthenticated: 'tok_3ds_authenticated', // Verified, liability shifted
+  threeDSecureFailed: 'tok_3ds_failed', // Verification failed
+  threeDSecureNotEnrolled: 'tok_3ds_not_enrolled', // Card not enrolled, no liability shift
+  rateLimited: 'tok_rate_limit', // 429 with Retry-After
+  serverError: 'tok_server_error', // 500
+  slow: 'tok_slow', // Approved after slowResponseMs
+} as const
+
+export interface Shift4SimulatorOptions {
+  port?: number // 0 picks a free port (default 8444)
+  host?: string
+  webhookUrl?: string // Where new events are POSTed (e.g. http://localhost:3000/api/v1/webhooks/shift4)
+  webhookSecret?: string // Signs deliveries when set
+  slowResponseMs?: number // Delay for the slow token (default 10000)
+  retryAfterSeconds?: number // Retry-After for the rate limit token (default 1)
+}
+
+interface TestCard {
+  brand: string
+  type: string
+  first6: string
+  last4: string
+  decline?: { code: string; message: string }
+  threeDSecure?: { enrolled: boolean; liabilityShift: 'successful' | 'failed' | 'not_possible' }
+}
+
+const AUTHENTICATION_REQUIRED = {
+  code: 'authentication_required',
+  message: 'The card issuer requires 3-D Secure authentication.',
+}
+
+const TEST_CARDS: Record<string, TestCard> = {
+  [SHIFT4_TEST_TOKENS.visa]: { brand: 'Visa', type: 'Credit Card', first6: '424242', last4: '4242' },
+  [SHIFT4_TEST_TOKENS.mastercard]: {
+    brand: 'MasterCard',
+    type: 'Credit Card',
+    first6: '555555',
+    last4: '4444',
+  },
+  [SHIFT4_TEST_TOKENS.amex]: {
+    brand: 'American Express',
+    type: 'Credit Card',
+    first6: '378282',
+    last4: '0005',
+  },
+  [SHIFT4_TEST_TOKENS.discover]: {
+    brand: 'Discover',
+    type: 'Credit Card',
+    first6: '601111',
+    last4: '1117',
+  },
+  [SHIFT4_TEST_TOKENS.declined]: {
+    brand: 'Visa',
+    type: 'Credit Card',
+    first6: '400000',
+    last4: '0002',
+    decline: { code: 'card_declined', message: 'The card was declined.' },
+  },
+  [SHIFT4_TEST_TOKENS.insufficientFunds]: {
+    brand: 'Visa',
+    type: 'Credit Card',
+    first6: '400000',
+    last4: '9995',
+    decline: { code: 'insufficient_funds', message: 'The card has insufficient funds.' },
+  },
+  [SHIFT4_TEST_TOKENS.expired]: {
+    brand: 'Visa',
+    type: 'Credit Card',
+    first6: '400000',
+    last4: '0069',
+    decline: { code: 'expired_card', message: 'The card has expired.' },
+  },
+  [SHIFT4_TEST_TOKENS.incorrectCvc]: {
+    brand: 'Visa',
+    type: 'Credit Card',
+    first6: '400000',
+    last4: '0127',
+    decline: { code: 'incorrect_cvc', message: "The card's security code is incorrect." },
+  },
+  [SHIFT4_TEST_TOKENS.threeDSecureRequired]: {
+    brand: 'Visa',
+    type: 'Credit Card',
+    first6: '400000',
+    last4: '3220',
+    decline: AUTHENTICATION_REQUIRED,
+  },
+  [SHIFT4_TEST_TOKENS.threeDSecureAuthenticated]: {
+    brand: 'Visa',
+    type: 'Credit Card',
+    first6: '400000',
+    last4: '3220',
+    threeDSecure: { enrolled: true, liabilityShift: 'successful' },
+  },
+  [SHIFT4_TEST_TOKENS.threeDSecureFailed]: {
+    brand: 'Visa',
+    type: 'Credit Card',
+    first6: '400000',
+    last4: '3220',
+    threeDSecure: { enrolled: true, liabilityShift: 'failed' },
+  },
+  [SHIFT4_TEST_TOKENS.threeDSecureNotEnrolled]: {
+    brand: 'Visa',
+    type: 'Credit Card',
+    first6: '400000',
+    last4: '0010',
+    threeDSecure: { enrolled: false, liabilityShift: 'not_possible' },
+  },
+}
+
+const DEFAULT_CARD = TEST_CARDS[SHIFT4_TEST_TOKENS.visa]
+
+const CONTROL_PREFIX = '/__simulator'
+
+class Shift4ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly type: string,
+    message: string,
+    public readonly code?: string,
+    public readonly extra: Record<string, unknown> = {}
+  ) {
+    super(message)
+  }
+}
+
+const notFound = (what: string, id: string) =>
+  new Shift4ApiError(404, 'invalid_request', `No such ${what}: ${id}`)
+
+export class Shift4Simulator {
+  private server: http.Server
+  private options: Required<Omit<Shift4SimulatorOptions, 'host' | 'webhookUrl' | 'webhookSecret'>> &
+    Pick<Shift4SimulatorOptions, 'host' | 'webhookUrl' | 'webhookSecret'>
+
+  private charges = new Map<string, any>()
+  private refunds = new Map<string, any>()
+  private customers = new Map<string, any>()
+  private cardBehaviors = new Map<string, string>() // card id -> token it was created from
+  private events: any[] = [] // Newest first
+  private idempotentResponses = new Map<string, { status: number; body: unknown }>()
+  private deliveries = new Set<Promise<unknown>>()
+
+  constructor(options: Shift4SimulatorOptions = {}) {
+    this.options = {
+      port: options.port ?? 8444,
+      host: options.host,
+      webhookUrl: options.webhookUrl,
+      webhookSecret: options.webhookSecret,
+      slowResponseMs: options.slowResponseMs ?? 10000,
+      retryAfterSeconds: options.retryAfterSeconds ?? 1,
+    }
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error({ error, url: req.url }, 'Shift4 simulator request failed')
+        if (!res.headersSent) {
+          this.send(res, 500, { error: { type: 'api_error', message: 'Simulator error' } })
+        }
+      })
+    })
+  }
+
+  get port(): number {
+    return (this.server.address() as AddressInfo).port
+  }
+
+  get url(): string {
+    return `http://${this.options.host || 'localhost'}:${this.port}`
+  }
+
+  async listen(): Promise<this> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject)
+      this.server.listen(this.options.port, this.options.host, () => {
+        this.server.off('error', reject)
+        resolve()
+      })
+    })
+
+    logger.info(
+      { url: this.url, webhookUrl: this.options.webhookUrl },
+      'Shift4 simulator listening'
+    )
+    return this
+  }
+
+  async close(): Promise<void> {
+    await Promise.allSettled(Array.from(this.deliveries))
+    this.server.closeAllConnections()
+    await new Promise<void>((resolve) => this.server.close(() => resolve()))
+  }
+
+  /**
+   * Wait for webhook deliveries in progress
+   */
+  async flushWebhooks(): Promise<void> {
+    await Promise.allSettled(Array.from(this.deliveries))
+  }
+
+  getCharge(chargeId: string): any | undefined {
+    return this.charges.get(chargeId)
+  }
+
+  getEvents(): any[] {
+    return [...this.events]
+  }
+
+  reset(): void {
+    this.charges.clear()
+    this.refunds.clear()
+    this.customers.clear()
+    this.cardBehaviors.clear()
+    this.events = []
+    this.idempotentResponses.clear()
+  }
+
+  /**
+   * Reissue a saved card, as the card network's account updater does
+   * The card stops declining and its customer records an update event
+   */
+  updateCard(cardId: string, changes: { expMonth?: number; expYear?: number; last4?: string }): any {
+    const customer = Array.from(this.customers.values()).find((candidate) =>
+      candidate.cards.some((card: any) => card.id === cardId)
+    )
+    if (!customer) {
+      throw notFound('card', cardId)
+    }
+
+    const card = this.findCard(customer.id, cardId)
+    if (changes.expMonth !== undefined) card.expMonth = String(changes.expMonth)
+    if (changes.expYear !== undefined) card.expYear = String(changes.expYear)
+    if (changes.last4 !== undefined) card.last4 = changes.last4
+
+    this.cardBehaviors.delete(cardId)
+    this.createEvent('customer.updated', customer)
+    return card
+  }
+
+  /**
+   * Record an event (e.g. a dispute) and deliver it if a webhook URL is set
+   */
+  createEvent(type: string, data: unknown): any {
+    const event = {
+      id: this.id('evt'),
+      created: this.now(),
+      objectType: 'event',
+      type,
+      data,
+    }
+
+    this.events.unshift(event)
+
+    if (this.options.webhookUrl) {
+      const delivery = this.deliverEvent(event.id).catch(() => undefined)
+      this.deliveries.add(delivery)
+      delivery.finally(() => this.deliveries.delete(delivery))
+    }
+
+    return event
+  }
+
+  /**
+   * POST an event to the webhook URL; resolves with the receiver's status
+   */
+  async deliverEvent(eventId: string): Promise<number> {
+    const event = this.events.find((candidate) => candidate.id === eventId)
+    if (!event) {
+      throw notFound('event', eventId)
+    }
+    if (!this.options.webhookUrl) {
+      throw new Shift4ApiError(400, 'invalid_request', 'No webhook URL configured')
+    }
+
+    const body = JSON.stringify(event)
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.options.webhookSecret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = buildWebhookSignatureHeader(
+        body,
+        this.options.webhookSecret
+      )
+    }
+
+    try {
+      const response = await fetch(this.options.webhookUrl, { method: 'POST', headers, body })
+
+      logger.debug(
+        { eventId, type: event.type, status: response.status },
+        'Shift4 simulator delivered webhook'
+      )
+      return response.status
+    } catch (error) {
+      logger.warn({ error, eventId, webhookUrl: this.options.webhookUrl }, 'Webhook delivery failed')
+      throw error
+    }
+  }
+
+  // ===========================================================================
+  // Routing
+  // ===========================================================================
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url || '/', 'http://simulator')
+    const path = url.pathname.replace(/\/+$/, '')
+    const method = req.method || 'GET'
+
+    const body = method === 'POST' ? await this.readBody(req) : {}
+    if (body === undefined) {
+      return this.send(res, 400, {
+        error: { type: 'invalid_request', message: 'Invalid JSON body' },
+      })
+    }
+
+    try {
+      if (path === CONTROL_PREFIX || path.startsWith(`${CONTROL_PREFIX}/`)) {
+        return this.send(
+          res,
+          200,
+          await this.handleControl(method, path.slice(CONTROL_PREFIX.length), body)
+        )
+      }
+
+      this.authenticate(req)
+
+      // A repeated Idempotency-Key gets the original response
+      const idempotencyKey = req.headers['idempotency-key']
+      const cacheKey =
+        method === 'POST' && typeof idempotencyKey === 'string'
+          ? `${path}:${idempotencyKey}`
+          : undefined
+      const cached = cacheKey ? this.idempotentResponses.get(cacheKey) : undefined
+      if (cached) {
+        return this.send(res, cached.status, cached.body)
+      }
+
+      let status = 200
+      let result: unknown
+      try {
+        await this.applyTokenBehavior(body.card)
+        result = await this.route(method, path, url.searchParams, body)
+      } catch (error) {
+        // Declines are final, so they are replayed like successes
+        if (!(error instanceof Shift4ApiError) || error.status !== 402 || !cacheKey) {
+          throw error
+        }
+        status = error.status
+        result = this.errorBody(error)
+      }
+
+      if (cacheKey) {
+        this.idempotentResponses.set(cacheKey, { status, body: result })
+      }
+      this.send(res, status, result)
+    } catch (error) {
+      if (!(error instanceof Shift4ApiError)) {
+        throw error
+      }
+
+      if (error.status === 429) {
+        res.setHeader('Retry-After', String(this.options.retryAfterSeconds))
+      }
+      this.send(res, error.status, this.errorBody(error))
+    }
+  }
+
+  private async route(method: string, path: string, query: URLSearchParams, body: any) {
+    const segments = path.split('/').filter(Boolean).map(decodeURIComponent)
+    const [resource, id, action, subId] = segments
+
+    switch (resource) {
+      case 'charges':
+        if (method === 'POST' && !id) return this.createCharge(body)
+        if (method === 'GET' && id && !action) return this.findCharge(id)
+        if (method === 'POST' && id && action === 'capture') return this.captureCharge(id, body)
+        break
+
+      case 'refunds':
+        if (method === 'POST' && !id) return this.createRefund(body)
+        if (method === 'GET' && id) return this.find(this.refunds, 'refund', id)
+        break
+
+      case 'customers':
+        if (method === 'POST' && !id) return this.createCustomer(body)
+        if (method === 'GET' && id && !action) return this.find(this.customers, 'customer', id)
+        if (method === 'POST' && id && !action) return this.updateCustomer(id, body)
+        if (action === 'cards') {
+          if (method === 'GET' && !subId) return this.list(this.findCustomer(id).cards, query)
+          if (method === 'POST' && !subId) return this.addCard(this.findCustomer(id), body.id)
+          if (method === 'GET' && subId) return this.findCard(id, subId)
+          if (method === 'DELETE' && subId) return this.deleteCard(id, subId)
+        }
+        break
+
+      case 'events':
+        if (method === 'GET' && !id) return this.listEvents(query)
+        if (method === 'GET' && id) return this.findEvent(id)
+        break
+    }
+
+    throw new Shift4ApiError(404, 'invalid_request', `Unrecognized request URL: ${method} ${path}`)
+  }
+
+  private async handleControl(method: string, path: string, body: any) {
+    if (path === '' && method === 'GET') {
+      return {
+        charges: this.charges.size,
+        refunds: this.refunds.size,
+        customers: this.customers.size,
+        webhookUrl: this.options.webhookUrl ?? null,
+        events: this.events.slice(0, 20),
+      }
+    }
+
+    if (path === '/reset' && method === 'POST') {
+      this.reset()
+      return { reset: true }
+    }
+
+    if (path === '/events' && method === 'POST') {
+      if (typeof body.type !== 'string') {
+        throw new Shift4ApiError(400, 'invalid_request', 'type is required')
+      }
+      return this.createEvent(body.type, body.data ?? {})
+    }
+
+    const deliverMatch = path.match(/^\/events\/([^/]+)\/deliver$/)
+    if (deliverMatch && method === 'POST') {
+      return { delivered: true, status: await this.deliverEvent(deliverMatch[1]) }
+    }
+
+    const cardMatch = path.match(/^\/cards\/([^/]+)$/)
+    if (cardMatch && method === 'POST') {
+      return this.updateCard(cardMatch[1], body)
+    }
+
+    throw new Shift4ApiError(404, 'invalid_request', `No simulator route for ${method} ${path}`)
+  }
+
+  /**
+   * Shift4 authenticates with the secret key as the Basic auth username
+   */
+  private authenticate(req: IncomingMessage) {
+    const [scheme, encoded] = (req.headers.authorization || '').split(' ')
+    const username =
+      scheme === 'Basic' && encoded ? Buffer.from(encoded, 'base64').toString().split(':')[0] : ''
+
+    if (!username.startsWith('sk_')) {
+      throw new Shift4ApiError(401, 'invalid_request', 'Provide a valid secret API key')
+    }
+  }
+
+  /**
+   * Faults triggered by magic tokens, on any request that carries one
+   */
+  private async applyTokenBehavior(token: unknown) {
+    switch (token) {
+      case SHIFT4_TEST_TOKENS.rateLimited:
+        throw new Shift4ApiError(429, 'rate_limit_error', 'Too many requests')
+      case SHIFT4_TEST_TOKENS.serverError:
+        throw new Shift4ApiError(500, 'api_error', 'Internal server error')
+      case SHIFT4_TEST_TOKENS.slow:
+        await new Promise((resolve) => setTimeout(resolve, this.options.slowResponseMs))
+    }
+  }
+
+  // ===========================================================================
+  // Charges and refunds
+  // ===========================================================================
+
+  private createCharge(body: any) {
+    if (!Number.isInteger(body.amount) || body.amount <= 0) {
+      throw new Shift4ApiError(400, 'invalid_request', 'amount must be a positive integer')
+    }
+    if (!body.currency) {
+      throw new Shift4ApiError(400, 'invalid_request', 'currency is required')
+    }
+
+    let card: any
+    let threeDSecureInfo: any
+    if (body.card && body.customerId && String(body.card).startsWith('card_')) {
+      card = this.findCard(body.customerId, body.card)
+    } else if (body.card) {
+      card = this.createCard(body.card)
+      threeDSecureInfo = this.getThreeDSecureInfo(body)
+    } else if (body.customerId) {
+      const customer = this.findCustomer(body.customerId)
+      card = customer.cards.find((candidate: any) => candidate.id === customer.defaultCardId)
+      if (!card) {
+        throw new Shift4ApiError(400, 'invalid_request', 'Customer has no default card')
+      }
+    } else {
+      throw new Shift4ApiError(400, 'invalid_request', 'card or customerId is required')
+    }
+
+    const decline =
+      TEST_CARDS[this.cardBehaviors.get(card.id) ?? '']?.decline ??
+      this.getThreeDSecureDecline(body, threeDSecureInfo)
+    const charge = {
+      id: this.id('char'),
+      created: this.now(),
+      objectType: 'charge',
+      amount: body.amount,
+      amountRefunded: 0,
+      currency: String(body.currency).toUpperCase(),
+      description: body.description,
+      card,
+      threeDSecureInfo,
+      customerId: body.customerId ?? card.customerId,
+      captured: decline ? false : body.captured !== false,
+      refunded: false,
+      disputed: false,
+      status: decline ? 'failed' : 'successful',
+      failureCode: decline?.code,
+      failureMessage: decline?.message,
+      metadata: body.metadata,
+    }
+
+    this.charges.set(charge.id, charge)
+
+    if (decline) {
+      this.createEvent('charge.failed', charge)
+      throw new Shift4ApiError(402, 'card_error', decline.message, decline.code, {
+        chargeId: charge.id,
+      })
+    }
+
+    this.createEvent('charge.succeeded', charge)
+    return charge
+  }
+
+  /**
+   * 3-D Secure outcome carried by a verified token, for the charged amount
+   */
+  private getThreeDSecureInfo(body: any) {
+    const threeDSecure = TEST_CARDS[body.card]?.threeDSecure
+    if (!threeDSecure) {
+      return undefined
+    }
+
+    return {
+      amount: body.amount,
+      currency: String(body.currency).toUpperCase(),
+      ...threeDSecure,
+      version: threeDSecure.enrolled ? '2.2.0' : undefined,
+      authenticationFlow: threeDSecure.enrolled ? 'frictionless' : undefined,
+    }
+  }
+
+  /**
+   * Decline a charge whose requested 3-D Secure outcome wasn't met
+   */
+  private getThreeDSecureDecline(body: any, threeDSecureInfo: any) {
+    if (!body.threeDSecure?.requireSuccessfulLiabilityShiftForEnrolledCard) {
+      return undefined
+    }
+    if (!threeDSecureInfo) {
+      return AUTHENTICATION_REQUIRED
+    }
+    if (threeDSecureInfo.enrolled && threeDSecureInfo.liabilityShift !== 'successful') {
+      return { code: 'card_declined', message: '3-D Secure authentication failed.' }
+    }
+    return undefined
+  }
+
+  private captureCharge(chargeId: string, body: any) {
+    const charge = this.findCharge(chargeId)
+
+    if (charge.captured) {
+      throw new Shift4ApiError(400, 'invalid_request', 'Charge has already been captured')
+    }
+    if (charge.refunded) {
+      throw new Shift4ApiError(400, 'invalid_request', 'Charge has been refunded')
+    }
+    if (body.amount !== undefined) {
+      if (body.amount > charge.amount) {
+        throw new Shift4ApiError(400, 'invalid_request', 'Cannot capture more than was authorized')
+      }
+      charge.amount = body.amount
+    }
+
+    charge.captured = true
+    this.createEvent('charge.captured', charge)
+    return charge
+  }
+
+  private createRefund(body: any) {
+    const charge = this.findCharge(body.chargeId)
+    const remaining = charge.amount - charge.amountRefunded
+    const amount = body.amount ?? remaining
+
+    if (charge.status !== 'successful') {
+      throw new Shift4ApiError(400, 'invalid_request', 'Charge was not successful')
+    }
+    if (amount <= 0 || amount > remaining) {
+      throw new Shift4ApiError(400, 'invalid_request', `Refund amount exceeds ${remaining}`)
+    }
+
+    const refund = {
+      id: this.id('re'),
+      created: this.now(),
+      objectType: 'refund',
+      amount,
+      currency: charge.currency,
+      chargeId: charge.id,
+      reason: body.reason,
+      status: 'successful',
+      metadata: body.metadata,
+    }
+
+    this.refunds.set(refund.id, refund)
+
+    // A full refund of an uncaptured charge releases the hold
+    charge.amountRefunded += amount
+    charge.refunded = charge.amountRefunded === charge.amount
+    charge.refunds = [...(charge.refunds || []), refund]
+
+    this.createEvent('charge.refunded', charge)
+    this.createEvent('refund.succeeded', refund)
+    return refund
+  }
+
+  private findCharge(chargeId: string) {
+    return this.find(this.charges, 'charge', chargeId)
+  }
+
+  // ===========================================================================
+  // Customers and cards
+  // ===========================================================================
+
+  private createCustomer(body: any) {
+    const customer: any = {
+      id: this.id('cust'),
+      created: this.now(),
+      objectType: 'customer',
+      email: body.email,
+      description: body.description,
+      cards: [],
+      defaultCardId: undefined,
+      metadata: body.metadata,
+    }
+
+    this.customers.set(customer.id, customer)
+
+    if (body.card) {
+      this.addCard(customer, body.card, true)
+    }
+
+    this.createEvent('customer.created', customer)
+    return customer
+  }
+
+  private updateCustomer(customerId: string, body: any) {
+    const customer = this.findCustomer(customerId)
+
+    if (body.email !== undefined) customer.email = body.email
+    if (body.description !== undefined) customer.description = body.description
+    if (body.metadata !== undefined) customer.metadata = body.metadata
+    if (body.defaultCardId !== undefined) {
+      customer.defaultCardId = this.findCard(customerId, body.defaultCardId).id
+    }
+
+    // A card sent with the customer replaces the default
+    if (body.card) {
+      this.addCard(customer, body.card, true)
+    }
+
+    this.createEvent('customer.updated', customer)
+    return customer
+  }
+
+  /**
+   * Add a card; it only becomes the default when asked or when it is the first
+   */
+  private addCard(customer: any, token: unknown, makeDefault = false) {
+    if (typeof token !== 'string' || !token) {
+      throw new Shift4ApiError(400, 'invalid_request', 'card token is required')
+    }
+
+    const card = this.createCard(token, customer.id)
+    customer.cards.push(card)
+    if (makeDefault || !customer.defaultCardId) {
+      customer.defaultCardId = card.id
+    }
+    return card
+  }
+
+  private createCard(token: string, customerId?: string) {
+    const testCard = TEST_CARDS[token] ?? DEFAULT_CARD
+    const now = new Date()
+    const expiry =
+      token === SHIFT4_TEST_TOKENS.expired
+        ? new Date(now.getFullYear(), now.getMonth() - 1, 1)
+        : new Date(now.getFullYear() + 3, 11, 1)
+
+    const card = {
+      id: this.id('card'),
+      created: this.now(),
+      objectType: 'card',
+      first6: testCard.first6,
+      last4: testCard.last4,
+      fingerprint: crypto.createHash('sha256').update(token).digest('hex').slice(0, 16),
+      expMonth: String(expiry.getMonth() + 1),
+      expYear: String(expiry.getFullYear()),
+      brand: testCard.brand,
+      type: testCard.type,
+      customerId,
+    }
+
+    this.cardBehaviors.set(card.id, token)
+    return card
+  }
+
+  private deleteCard(customerId: string, cardId: string) {
+    const customer = this.findCustomer(customerId)
+    this.findCard(customerId, cardId)
+
+    customer.cards = customer.cards.filter((card: any) => card.id !== cardId)
+    if (customer.defaultCardId === cardId) {
+      customer.defaultCardId = customer.cards[0]?.id
+    }
+
+    return { id: cardId, deleted: true }
+  }
+
+  private findCustomer(customerId: string) {
+    return this.find(this.customers, 'customer', customerId)
+  }
+
+  private findCard(customerId: string, cardId: string) {
+    const card = this.findCustomer(customerId).cards.find((candidate: any) => candidate.id === cardId)
+    if (!card) {
+      throw notFound('card', cardId)
+    }
+    return card
+  }
+
+  // ===========================================================================
+  // Events
+  // ===========================================================================
+
+  private findEvent(eventId: string) {
+    const event = this.events.find((candidate) => candidate.id === eventId)
+    if (!event) {
+      throw notFound('event', eventId)
+    }
+    return event
+  }
+
+  private listEvents(query: URLSearchParams) {
+    const gte = query.get('created[gte]')
+    const lte = query.get('created[lte]')
+
+    const events = this.events.filter(
+      (event) =>
+        (!gte || event.created >= parseInt(gte, 10)) && (!lte || event.created <= parseInt(lte, 10))
+    )
+
+    return this.list(events, query)
+  }
+
+  /**
+   * Shift4 list envelope with cursor pagination (items newest first)
+   */
+  private list(items: any[], query: URLSearchParams) {
+    const limit = Math.min(parseInt(query.get('limit') || '10', 10), 100)
+    const startingAfterId = query.get('startingAfterId')
+    const endingBeforeId = query.get('endingBeforeId')
+
+    let start = 0
+    let end = items.length
+
+    if (startingAfterId) {
+      start = items.findIndex((item) => item.id === startingAfterId) + 1
+    }
+    if (endingBeforeId) {
+      end = Math.max(items.findIndex((item) => item.id === endingBeforeId), 0)
+      start = Math.max(start, end - limit)
+    }
+
+    const page = items.slice(start, end).slice(0, limit)
+
+    return { list: page, hasMore: start + page.length < end }
+  }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  private find(collection: Map<string, any>, what: string, id: string) {
+    const item = collection.get(id)
+    if (!item) {
+      throw notFound(what, id)
+    }
+    return item
+  }
+
+  private id(prefix: string): string {
+    return `${prefix}_${crypto.randomBytes(12).toString('hex')}`
+  }
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000)
+  }
+
+  private errorBody(error: Shift4ApiError) {
+    return {
+      error: { type: error.type, code: error.code, message: error.message, ...error.extra },
+    }
+  }
+
+  private readBody(req: IncomingMessage): Promise<any | undefined> {
+    return new Promise((resolve, reject) => {
+      let raw = ''
+      req.setEncoding('utf8')
+      req.on('data', (chunk) => (raw += chunk))
+      req.on('error', reject)
+      req.on('end', () => {
+        if (!raw) return resolve({})
+        try {
+          resolve(JSON.parse(raw))
+        } catch {
+          resolve(undefined)
+        }
+      })
+    })
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+}
+
+/**
+ * Start a simulator and wait until it is listening
+ */
+export async function startShift4Simulator(
+  options: Shift4SimulatorOptions = {}
+): Promise<Shift4Simulator> {
+  return new Shift4Simulator(options).listen()
+}
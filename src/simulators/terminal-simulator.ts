@@ -0,0 +1,865 @@
+/**
+ * Terminal device simulator
+ * Local stand-in for a UTG gateway and the SkyTab device API
+ *
+ * Serves the endpoints UTGAdapter and SkyTabAdapter call, so both can be
+ * exercised end to end without hardware: point UTG_HOST/UTG_PORT or
+ * SKYTAB_API_URL at it. Every sale or authorization plays out a scenario
+ * (approve, decline, slow customer, ...). Set the default scenario, or queue
+ * scenarios for the next transactions, through the control endpoints:
+ *
+ *   GET  /__simulator                      current scenario, queue and transactions
+ *   PUT  /__simulator/scenario             { "scenario": "decline" }
+ *   POST /__simulator/queue                { "scenarios": ["approve", "timeout"] }
+ *   POST /__simulator/reset                forget transactions, queue and SAF
+ *
+ * Amounts are in cents, as on the devices.
+ */
+
+import http, { IncomingMessage, ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import { nanoid } from 'nanoid'
+import { logger } from '@/payments/logger'
+
+export type SimulatorScenario =
+  | 'approve'
+  | 'decline'
+  | 'partial_approval' // Approves part of the amount (e.g. gift card balance)
+  | 'slow_customer' // Customer takes slowCustomerDelayMs to present a card
+  | 'timeout' // Customer never presents a card
+  | 'offline' // Connections are dropped
+  | 'tip_prompt' // Customer picks a tip when prompted
+  | 'saf' // Shift4 unreachable; UTG approves offline within the SAF floor limit
+
+export const SIMULATOR_SCENARIOS: SimulatorScenario[] = [
+  'approve',
+  'decline',
+  'partial_approval',
+  'slow_customer',
+  'timeout',
+  'offline',
+  'tip_prompt',
+  'saf',
+]
+
+export interface TerminalSimulatorOptions {
+  port?: number // 0 picks a free port (default 8333, the UTG default)
+  host?: string
+  scenario?: SimulatorScenario
+  customerDelayMs?: number // Until the card is presented (default 1000)
+  slowCustomerDelayMs?: number // Same, for slow_customer (default 30000)
+  authorizationDelayMs?: number // From card presented to result (default 500)
+  deviceTimeoutMs?: number // UTG gives up on the customer after this (default 60000)
+  tipPercent?: number // Tip chosen under tip_prompt (default 20)
+  partialApprovalPercent?: number // Share approved under partial_approval (default 50)
+}
+
+export type SimulatedStatus =
+  | 'pending' // Waiting for a card
+  | 'processing' // Card presented, authorizing
+  | 'approved'
+  | 'declined'
+  | 'cancelled'
+  | 'voided'
+  | 'timeout'
+
+export interface SimulatedTransaction {
+  transactionId: string
+  protocol: 'utg' | 'skytab'
+  type: 'sale' | 'auth' | 'refund'
+  scenario: SimulatorScenario
+  status: SimulatedStatus
+  requestedAmount: number
+  amount: number
+  tipAmount: number
+  tipPrompt: boolean
+  captured: boolean
+  storedOffline: boolean
+  authCode?: string
+  token?: string
+  responseCode: string
+  responseMessage: string
+  createdAt: string
+}
+
+interface CardTransactionRequest {
+  transactionId: string
+  protocol: 'utg' | 'skytab'
+  type: 'sale' | 'auth'
+  amount: number
+  tipAmount?: number
+  tipPrompt: boolean
+  safAllowed: boolean
+}
+
+const APPROVED_CODE = '00'
+const DECLINED_CODE = '05'
+const NOT_FOUND_CODE = '25'
+const INVALID_CODE = '12'
+const HOST_UNAVAILABLE_CODE = '91'
+
+// UTG-only codes, as mapped by UTGAdapter
+const UTG_PENDING_CODE = 'PD'
+const UTG_TIMEOUT_CODE = 'TO'
+const UTG_CANCELLED_CODE = 'CA'
+
+const CONTROL_PREFIX = '/__simulator'
+
+const isFinal = (status: SimulatedStatus) => status !== 'pending' && status !== 'processing'
+
+export class TerminalSimulator {
+  private server: http.Server
+  private options: Required<Omit<TerminalSimulatorOptions, 'host'>> & { host?: string }
+  private scenario: SimulatorScenario
+  private queue: SimulatorScenario[] = []
+  private transactions = new Map<string, SimulatedTransaction>()
+  private timers = new Map<string, ReturnType<typeof setTimeout>>()
+  private waiters = new Map<string, Array<() => void>>()
+  private safQueue: string[] = []
+  private authCodeCounter = 100000
+
+  constructor(options: TerminalSimulatorOptions = {}) {
+    this.options = {
+      port: options.port ?? 8333,
+      host: options.host,
+      scenario: options.scenario ?? 'approve',
+      customerDelayMs: options.customerDelayMs ?? 1000,
+      slowCustomerDelayMs: options.slowCustomerDelayMs ?? 30000,
+      authorizationDelayMs: options.authorizationDelayMs ?? 500,
+      deviceTimeoutMs: options.deviceTimeoutMs ?? 60000,
+      tipPercent: options.tipPercent ?? 20,
+      partialApprovalPercent: options.partialApprovalPercent ?? 50,
+    }
+    this.scenario = this.options.scenario
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error({ error, url: req.url }, 'Terminal simulator request failed')
+        if (!res.headersSent) {
+          this.send(res, 500, { message: 'Simulator error' })
+        }
+      })
+    })
+  }
+
+  get port(): number {
+    return (this.server.address() as AddressInfo).port
+  }
+
+  get url(): string {
+    return `http://${this.options.host || 'localhost'}:${this.port}`
+  }
+
+  async listen(): Promise<this> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject)
+      this.server.listen(this.options.port, this.options.host, () => {
+        this.server.off('error', reject)
+        resolve()
+      })
+    })
+
+    logger.info({ url: this.url, scenario: this.scenario }, 'Terminal simulator listening')
+    return this
+  }
+
+  async close(): Promise<void> {
+    this.clearTimers()
+    this.server.closeAllConnections()
+    await new Promise<void>((resolve) => this.server.close(() => resolve()))
+  }
+
+  /**
+   * Scenario for transactions that have nothing queued
+   */
+  setScenario(scenario: SimulatorScenario): void {
+    this.scenario = scenario
+  }
+
+  /**
+   * Scenarios for the next transactions, in order
+   */
+  queueScenarios(...scenarios: SimulatorScenario[]): void {
+    this.queue.push(...scenarios)
+  }
+
+  getTransaction(transactionId: string): SimulatedTransaction | undefined {
+    return this.transactions.get(transactionId)
+  }
+
+  reset(): void {
+    this.clearTimers()
+    this.transactions.clear()
+    this.queue = []
+    this.safQueue = []
+    this.scenario = this.options.scenario
+  }
+
+  private clearTimers() {
+    this.timers.forEach((timer) => clearTimeout(timer))
+    this.timers.clear()
+
+    // Release UTG requests still waiting on a customer
+    this.waiters.forEach((waiters) => waiters.forEach((wake) => wake()))
+    this.waiters.clear()
+  }
+
+  // ===========================================================================
+  // Routing
+  // ===========================================================================
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url || '/', 'http://simulator')
+    const path = url.pathname.replace(/\/+$/, '')
+    const method = req.method || 'GET'
+
+    if (path === CONTROL_PREFIX || path.startsWith(`${CONTROL_PREFIX}/`)) {
+      return this.handleControl(method, path.slice(CONTROL_PREFIX.length), req, res)
+    }
+
+    const body = method === 'POST' ? await this.readBody(req) : {}
+    if (body === undefined) {
+      return this.send(res, 400, { message: 'Invalid JSON body' })
+    }
+
+    const isCardTransaction =
+      (path === '/api/transaction' &&
+        (body.TransactionType === 'Sale' ||
+          (body.TransactionType === 'Auth' && !body.OriginalTransactionId))) ||
+      (path === '/api/v1/transactions' && method === 'POST')
+
+    // A card transaction takes the next queued scenario; everything else
+    // (pings, status, voids) only sees the default
+    const scenario = isCardTransaction ? this.queue.shift() ?? this.scenario : this.scenario
+
+    if (scenario === 'offline') {
+      logger.debug({ method, path }, 'Terminal simulator offline; dropping connection')
+      req.socket.destroy()
+      return
+    }
+
+    // UTG
+    if (path === '/api/health' && method === 'GET') {
+      return this.send(res, 200, { Status: 'OK' })
+    }
+    if (path === '/api/terminal-info' && method === 'GET') {
+      return this.send(res, 200, this.utgTerminalInfo())
+    }
+    if (path === '/api/transaction' && method === 'POST') {
+      return this.send(res, 200, await this.utgTransaction(body, scenario))
+    }
+    if (path === '/api/status' && method === 'POST') {
+      return this.send(res, 200, this.utgStatus(body.TransactionId))
+    }
+    if (path === '/api/saf/forward' && method === 'POST') {
+      return this.send(res, 200, this.utgForwardSAF())
+    }
+
+    // SkyTab
+    if (path === '/api/v1/transactions' && method === 'POST') {
+      return this.send(res, 201, this.skyTabStart(body, scenario))
+    }
+    if (path === '/api/v1/refunds' && method === 'POST') {
+      return this.send(res, 201, this.skyTabRefund(body))
+    }
+
+    const transactionMatch = path.match(/^\/api\/v1\/transactions\/([^/]+)(?:\/([a-z]+))?$/)
+    if (transactionMatch) {
+      const [, transactionId, action] = transactionMatch
+      const transaction = this.transactions.get(decodeURIComponent(transactionId))
+
+      if (!transaction) {
+        return this.send(res, 404, { message: 'Transaction not found' })
+      }
+      if (!action && method === 'GET') {
+        return this.send(res, 200, this.skyTabView(transaction))
+      }
+      if (action && method === 'POST') {
+        return this.send(res, 200, this.skyTabAction(transaction, action, body))
+      }
+    }
+
+    const deviceMatch = path.match(/^\/api\/v1\/devices\/([^/]+)(\/status)?$/)
+    if (deviceMatch && method === 'GET') {
+      const deviceId = decodeURIComponent(deviceMatch[1])
+      return this.send(
+        res,
+        200,
+        deviceMatch[2] ? { device_id: deviceId, status: 'online' } : this.skyTabDeviceInfo(deviceId)
+      )
+    }
+
+    this.send(res, 404, { message: `No simulator route for ${method} ${path}` })
+  }
+
+  private async handleControl(
+    method: string,
+    path: string,
+    req: IncomingMessage,
+    res: ServerResponse
+  ) {
+    if (path === '' && method === 'GET') {
+      return this.send(res, 200, {
+        scenario: this.scenario,
+        queue: this.queue,
+        safQueue: this.safQueue,
+        transactions: Array.from(this.transactions.values()),
+      })
+    }
+
+    if (path === '/reset' && method === 'POST') {
+      this.reset()
+      return this.send(res, 200, { reset: true })
+    }
+
+    const body = await this.readBody(req)
+    if (body === undefined) {
+      return this.send(res, 400, { message: 'Invalid JSON body' })
+    }
+
+    if (path === '/scenario' && method === 'PUT') {
+      if (!this.isScenario(body.scenario)) {
+        return this.send(res, 400, this.unknownScenario(body.scenario))
+      }
+      this.setScenario(body.scenario)
+      return this.send(res, 200, { scenario: this.scenario })
+    }
+
+    if (path === '/queue' && method === 'POST') {
+      const scenarios: unknown[] = Array.isArray(body.scenarios) ? body.scenarios : []
+      const unknown = scenarios.find((scenario) => !this.isScenario(scenario))
+      if (scenarios.length === 0 || unknown !== undefined) {
+        return this.send(res, 400, this.unknownScenario(unknown))
+      }
+      this.queueScenarios(...(scenarios as SimulatorScenario[]))
+      return this.send(res, 200, { queue: this.queue })
+    }
+
+    this.send(res, 404, { message: `No simulator route for ${method} ${CONTROL_PREFIX}${path}` })
+  }
+
+  // ===========================================================================
+  // Customer and authorization
+  // ===========================================================================
+
+  /**
+   * Create a sale or auth and play its scenario out on timers
+   */
+  private startCardTransaction(
+    request: CardTransactionRequest,
+    scenario: SimulatorScenario
+  ): SimulatedTransaction {
+    const transaction: SimulatedTransaction = {
+      transactionId: request.transactionId,
+      protocol: request.protocol,
+      type: request.type,
+      scenario,
+      status: 'pending',
+      requestedAmount: request.amount,
+      amount: request.amount,
+      tipAmount: request.tipAmount ?? 0,
+      tipPrompt: request.tipPrompt,
+      captured: false,
+      storedOffline: false,
+      responseCode: UTG_PENDING_CODE,
+      responseMessage: 'Waiting for card',
+      createdAt: new Date().toISOString(),
+    }
+
+    this.transactions.set(transaction.transactionId, transaction)
+
+    // The customer never shows up; UTG times out, SkyTab stays pending
+    // until the adapter stops polling
+    if (scenario === 'timeout') {
+      if (request.protocol === 'utg') {
+        this.schedule(transaction, this.options.deviceTimeoutMs, () => {
+          this.complete(transaction, 'timeout', UTG_TIMEOUT_CODE, 'Customer did not respond')
+        })
+      }
+      return transaction
+    }
+
+    const customerDelayMs =
+      scenario === 'slow_customer'
+        ? this.options.slowCustomerDelayMs
+        : this.options.customerDelayMs
+
+    this.schedule(transaction, customerDelayMs, () => {
+      transaction.status = 'processing'
+      transaction.responseMessage = 'Authorizing'
+
+      this.schedule(transaction, this.options.authorizationDelayMs, () => {
+        this.authorize(transaction, request.safAllowed)
+      })
+    })
+
+    return transaction
+  }
+
+  private authorize(transaction: SimulatedTransaction, safAllowed: boolean) {
+    const { scenario } = transaction
+
+    if (scenario === 'decline') {
+      return this.complete(transaction, 'declined', DECLINED_CODE, 'Do not honor')
+    }
+
+    // SkyTab has no store-and-forward here; it approves as normal
+    if (scenario === 'saf' && transaction.protocol === 'utg' && !safAllowed) {
+      return this.complete(transaction, 'declined', HOST_UNAVAILABLE_CODE, 'Host unavailable')
+    }
+
+    transaction.token = `tok_sim_${nanoid(16)}`
+    transaction.authCode = String(this.authCodeCounter++)
+
+    if (scenario === 'partial_approval') {
+      transaction.amount = Math.floor(
+        (transaction.requestedAmount * this.options.partialApprovalPercent) / 100
+      )
+      return this.complete(transaction, 'approved', APPROVED_CODE, 'Partial approval')
+    }
+
+    if (scenario === 'tip_prompt' && transaction.tipPrompt) {
+      transaction.tipAmount = Math.round(
+        (transaction.requestedAmount * this.options.tipPercent) / 100
+      )
+    }
+
+    if (scenario === 'saf' && transaction.protocol === 'utg') {
+      transaction.storedOffline = true
+      this.safQueue.push(transaction.transactionId)
+      return this.complete(transaction, 'approved', APPROVED_CODE, 'Approved offline')
+    }
+
+    this.complete(transaction, 'approved', APPROVED_CODE, 'Approved')
+  }
+
+  private complete(
+    transaction: SimulatedTransaction,
+    status: SimulatedStatus,
+    responseCode: string,
+    responseMessage: string
+  ) {
+    transaction.status = status
+    transaction.responseCode = responseCode
+    transaction.responseMessage = responseMessage
+
+    const timer = this.timers.get(transaction.transactionId)
+    clearTimeout(timer)
+    this.timers.delete(transaction.transactionId)
+
+    this.waiters.get(transaction.transactionId)?.forEach((wake) => wake())
+    this.waiters.delete(transaction.transactionId)
+
+    logger.debug(
+      { transactionId: transaction.transactionId, status, scenario: transaction.scenario },
+      'Simulated transaction completed'
+    )
+  }
+
+  /**
+   * Cancel from the POS; only possible before a card is presented
+   */
+  private cancel(transaction: SimulatedTransaction): boolean {
+    if (transaction.status !== 'pending') {
+      return false
+    }
+
+    this.complete(transaction, 'cancelled', UTG_CANCELLED_CODE, 'Cancelled by POS')
+    return true
+  }
+
+  /**
+   * Void an approved transaction; status checks no longer report it approved
+   */
+  private void(transaction: SimulatedTransaction) {
+    transaction.status = 'voided'
+    transaction.responseCode = UTG_CANCELLED_CODE
+    transaction.responseMessage = 'Voided'
+  }
+
+  private schedule(transaction: SimulatedTransaction, delayMs: number, run: () => void) {
+    this.timers.set(
+      transaction.transactionId,
+      setTimeout(() => {
+        this.timers.delete(transaction.transactionId)
+        run()
+      }, delayMs)
+    )
+  }
+
+  private waitForResult(transaction: SimulatedTransaction): Promise<void> {
+    if (isFinal(transaction.status)) {
+      return Promise.resolve()
+    }
+
+    return new Promise((resolve) => {
+      const waiters = this.waiters.get(transaction.transactionId) || []
+      waiters.push(resolve)
+      this.waiters.set(transaction.transactionId, waiters)
+    })
+  }
+
+  /**
+   * Why a follow-up (capture, void, tip) is not allowed, if it isn't
+   */
+  private checkApproved(
+    transaction: SimulatedTransaction | undefined,
+    type?: SimulatedTransaction['type']
+  ): string | undefined {
+    if (!transaction) return 'Original transaction not found'
+    if (transaction.status !== 'approved') return `Transaction is ${transaction.status}`
+    if (type && transaction.type !== type) return `Transaction is not a ${type}`
+    return undefined
+  }
+
+  // ===========================================================================
+  // UTG
+  // ===========================================================================
+
+  private async utgTransaction(body: any, scenario: SimulatorScenario) {
+    const transactionId: string = body.TransactionId || nanoid()
+    const original = body.OriginalTransactionId
+      ? this.transactions.get(body.OriginalTransactionId)
+      : undefined
+
+    switch (body.TransactionType) {
+      case 'Sale':
+      case 'Auth': {
+        // Incremental authorization raises an open auth
+        if (body.OriginalTransactionId) {
+          const error = this.checkApproved(original, 'auth')
+          if (error || !original || original.captured) {
+            return this.utgError(transactionId, error || 'Authorization already captured')
+          }
+          original.amount = parseInt(body.Amount, 10)
+          return this.utgView(original)
+        }
+
+        const transaction = this.startCardTransaction(
+          {
+            transactionId,
+            protocol: 'utg',
+            type: body.TransactionType === 'Sale' ? 'sale' : 'auth',
+            amount: parseInt(body.Amount, 10),
+            tipAmount: body.TipAmount ? parseInt(body.TipAmount, 10) : undefined,
+            tipPrompt: body.TipMode === 'Prompt',
+            safAllowed: body.SAFAllowed === true,
+          },
+          scenario
+        )
+
+        // UTG holds the request open until the customer finishes
+        await this.waitForResult(transaction)
+        return this.utgView(transaction)
+      }
+
+      case 'Capture': {
+        const error = this.checkApproved(original, 'auth')
+        if (error || !original || original.captured) {
+          return this.utgError(transactionId, error || 'Authorization already captured')
+        }
+        original.amount = parseInt(body.Amount, 10)
+        original.tipAmount = body.TipAmount ? parseInt(body.TipAmount, 10) : original.tipAmount
+        original.captured = true
+        return this.utgView(original)
+      }
+
+      case 'Void': {
+        // Without an original, a void cancels the in-flight transaction
+        if (!body.OriginalTransactionId) {
+          const transaction = this.transactions.get(transactionId)
+          if (!transaction) {
+            return this.utgError(transactionId, 'Transaction not found', NOT_FOUND_CODE)
+          }
+          return this.cancel(transaction)
+            ? { TransactionId: transactionId, ResponseCode: APPROVED_CODE, ResponseMessage: 'Cancelled' }
+            : this.utgError(transactionId, 'Transaction can no longer be cancelled')
+        }
+
+        const error = this.checkApproved(original)
+        if (error || !original) {
+          return this.utgError(transactionId, error || 'Original transaction not found')
+        }
+        this.void(original)
+        return { TransactionId: transactionId, ResponseCode: APPROVED_CODE, ResponseMessage: 'Voided' }
+      }
+
+      case 'TipAdjust': {
+        const error = this.checkApproved(original, 'sale')
+        if (error || !original) {
+          return this.utgError(transactionId, error || 'Original transaction not found')
+        }
+        original.tipAmount = parseInt(body.TipAmount, 10)
+        return this.utgView(original)
+      }
+
+      case 'Refund': {
+        const refund = this.recordRefund(transactionId, 'utg', parseInt(body.Amount, 10))
+        return this.utgView(refund)
+      }
+
+      default:
+        return this.utgError(transactionId, `Unsupported transaction type ${body.TransactionType}`)
+    }
+  }
+
+  private utgStatus(transactionId: string) {
+    const transaction = this.transactions.get(transactionId)
+
+    if (!transaction) {
+      return this.utgError(transactionId, 'Transaction not found', NOT_FOUND_CODE)
+    }
+
+    return this.utgView(transaction)
+  }
+
+  private utgForwardSAF() {
+    const forwarded = this.safQueue.map((transactionId) => {
+      const transaction = this.transactions.get(transactionId)!
+      transaction.storedOffline = false
+
+      return {
+        TransactionId: transactionId,
+        ResponseCode: APPROVED_CODE,
+        ResponseMessage: 'Approved',
+        Amount: String(transaction.amount),
+        TotalAmount: String(transaction.amount + transaction.tipAmount),
+        AuthCode: transaction.authCode,
+      }
+    })
+
+    this.safQueue = []
+    return { Transactions: forwarded }
+  }
+
+  private utgTerminalInfo() {
+    return {
+      Model: 'UTG Simulator',
+      SerialNumber: 'SIM-UTG-0001',
+      FirmwareVersion: '1.0.0-sim',
+      SupportsEMV: true,
+      SupportsNFC: true,
+      SupportsTipping: true,
+      SupportsSignature: true,
+      SAFEnabled: true,
+      SAFTransactionCount: this.safQueue.length,
+    }
+  }
+
+  private utgView(transaction: SimulatedTransaction) {
+    const approved = transaction.status === 'approved' || transaction.status === 'voided'
+
+    return {
+      TransactionId: transaction.transactionId,
+      ResponseCode: transaction.responseCode,
+      ResponseMessage: transaction.responseMessage,
+      Amount: String(transaction.amount),
+      TipAmount: transaction.tipAmount ? String(transaction.tipAmount) : undefined,
+      TotalAmount: String(transaction.amount + transaction.tipAmount),
+      ...(approved && {
+        Token: transaction.token,
+        CardBrand: 'VISA',
+        Last4: '4242',
+        AuthCode: transaction.authCode,
+        EntryMode: 'Chip',
+        StoredOffline: transaction.storedOffline,
+      }),
+    }
+  }
+
+  private utgError(transactionId: string, message: string, code: string = INVALID_CODE) {
+    return { TransactionId: transactionId, ResponseCode: code, ResponseMessage: message }
+  }
+
+  // ===========================================================================
+  // SkyTab
+  // ===========================================================================
+
+  private skyTabStart(body: any, scenario: SimulatorScenario) {
+    const transaction = this.startCardTransaction(
+      {
+        transactionId: body.reference_id || nanoid(),
+        protocol: 'skytab',
+        type: body.transaction_type === 'auth' ? 'auth' : 'sale',
+        amount: body.amount,
+        tipAmount: body.tip_amount,
+        tipPrompt: body.tip_enabled === true,
+        safAllowed: false,
+      },
+      scenario
+    )
+
+    return { transaction_id: transaction.transactionId, status: transaction.status }
+  }
+
+  private skyTabAction(transaction: SimulatedTransaction, action: string, body: any) {
+    switch (action) {
+      case 'cancel':
+        return this.cancel(transaction)
+          ? { transaction_id: transaction.transactionId, status: 'cancelled' }
+          : {
+              transaction_id: transaction.transactionId,
+              status: transaction.status,
+              message: 'Transaction can no longer be cancelled',
+            }
+
+      case 'capture':
+      case 'increment': {
+        const error = this.checkApproved(transaction, 'auth')
+        if (error || transaction.captured) {
+          return this.skyTabError(transaction, error || 'Authorization already captured')
+        }
+        transaction.amount = body.amount
+        if (action === 'capture') {
+          transaction.tipAmount = body.tip_amount ?? transaction.tipAmount
+          transaction.captured = true
+        }
+        return this.skyTabView(transaction)
+      }
+
+      case 'void': {
+        const error = this.checkApproved(transaction)
+        if (error) {
+          return this.skyTabError(transaction, error)
+        }
+        this.void(transaction)
+        return this.skyTabView(transaction)
+      }
+
+      case 'tip': {
+        const error = this.checkApproved(transaction, 'sale')
+        if (error) {
+          return this.skyTabError(transaction, error)
+        }
+        transaction.tipAmount = body.tip_amount
+        return this.skyTabView(transaction)
+      }
+
+      default:
+        return this.skyTabError(transaction, `Unsupported action ${action}`)
+    }
+  }
+
+  private skyTabRefund(body: any) {
+    const refund = this.recordRefund(body.reference_id || nanoid(), 'skytab', body.amount)
+
+    return {
+      refund_id: refund.transactionId,
+      status: 'approved',
+      amount: refund.amount,
+      response_code: refund.responseCode,
+      response_message: refund.responseMessage,
+    }
+  }
+
+  private skyTabDeviceInfo(deviceId: string) {
+    return {
+      device_id: deviceId,
+      status: 'online',
+      model: 'SkyTab Simulator',
+      serial_number: 'SIM-SKYTAB-0001',
+      firmware_version: '1.0.0-sim',
+      capabilities: { emv: true, nfc: true, tipping: true, signature: true },
+    }
+  }
+
+  private skyTabView(transaction: SimulatedTransaction) {
+    const approved = transaction.status === 'approved' || transaction.status === 'voided'
+
+    return {
+      transaction_id: transaction.transactionId,
+      status: transaction.status,
+      amount: transaction.amount,
+      tip_amount: transaction.tipAmount || undefined,
+      total_amount: transaction.amount + transaction.tipAmount,
+      ...(approved && {
+        card: { token: transaction.token, brand: 'VISA', last4: '4242' },
+        auth_code: transaction.authCode,
+        entry_mode: 'chip',
+      }),
+      response_code: isFinal(transaction.status) ? transaction.responseCode : undefined,
+      response_message: transaction.responseMessage,
+    }
+  }
+
+  private skyTabError(transaction: SimulatedTransaction, message: string) {
+    return {
+      ...this.skyTabView(transaction),
+      response_code: INVALID_CODE,
+      response_message: message,
+    }
+  }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  private recordRefund(
+    transactionId: string,
+    protocol: SimulatedTransaction['protocol'],
+    amount: number
+  ): SimulatedTransaction {
+    const refund: SimulatedTransaction = {
+      transactionId,
+      protocol,
+      type: 'refund',
+      scenario: this.scenario,
+      status: 'approved',
+      requestedAmount: amount,
+      amount,
+      tipAmount: 0,
+      tipPrompt: false,
+      captured: false,
+      storedOffline: false,
+      authCode: String(this.authCodeCounter++),
+      responseCode: APPROVED_CODE,
+      responseMessage: 'Approved',
+      createdAt: new Date().toISOString(),
+    }
+
+    this.transactions.set(transactionId, refund)
+    return refund
+  }
+
+  private isScenario(value: unknown): value is SimulatorScenario {
+    return SIMULATOR_SCENARIOS.includes(value as SimulatorScenario)
+  }
+
+  private unknownScenario(value: unknown) {
+    return {
+      message: `Unknown scenario ${JSON.stringify(value)}`,
+      scenarios: SIMULATOR_SCENARIOS,
+    }
+  }
+
+  private readBody(req: IncomingMessage): Promise<any | undefined> {
+    return new Promise((resolve, reject) => {
+      let raw = ''
+      req.setEncoding('utf8')
+      req.on('data', (chunk) => (raw += chunk))
+      req.on('error', reject)
+      req.on('end', () => {
+        if (!raw) return resolve({})
+        try {
+          resolve(JSON.parse(raw))
+        } catch {
+          resolve(undefined)
+        }
+      })
+    })
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+}
+
+/**
+ * Start a simulator and wait until it is listening
+ */
+export async function startTerminalSimulator(
+  options: TerminalSimulatorOptions = {}
+): Promise<TerminalSimulator> {
+  return new TerminalSimulator(options).listen()
+}